@@ -0,0 +1,57 @@
+/**
+ * Builds every built-in outline over the resolution range the app offers and
+ * checks that each mesh comes out manifold and closed.
+ *
+ *   npm run check:outlines
+ *
+ * Exits with 1 and lists the failing sizes if any mesh has issues.
+ */
+import { DEFAULT_OPTIONS } from '../src/lib/types';
+import type { OutlineKind, ProcessingOptions } from '../src/lib/types';
+import { computeDepthMap } from '../src/lib/heightmap';
+import { buildMesh } from '../src/lib/mesh';
+import { validateMesh } from '../src/lib/meshValidation';
+
+const KINDS: OutlineKind[] = ['heart', 'star', 'hexagon', 'roundedRect'];
+const WIDTHS_MM = [40, 60, 100];
+const ASPECTS = [0.75, 1, 1.5]; // Image height over width
+// The Resolution slider: 0.1 to 0.4mm per pixel in 0.05mm steps
+const PIXEL_SIZES = Array.from({ length: 7 }, (_, k) => 0.1 + k * 0.05);
+
+let failures = 0;
+let checked = 0;
+for (const kind of KINDS) {
+    for (const widthMm of WIDTHS_MM) {
+        for (const aspect of ASPECTS) {
+            for (const pixelSize of PIXEL_SIZES) {
+                const options: ProcessingOptions = {
+                    ...DEFAULT_OPTIONS,
+                    widthMm,
+                    pixelSize,
+                    shape: { ...DEFAULT_OPTIONS.shape, type: 'outline', outline: { kind } }
+                };
+                const width = Math.round(widthMm / pixelSize);
+                const height = Math.round(width * aspect);
+                // A gray ramp, so the surface is not one flat level
+                const data = new Uint8ClampedArray(width * height * 4);
+                for (let i = 0; i < width * height; i++) {
+                    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = i % 256;
+                    data[i * 4 + 3] = 255;
+                }
+
+                const geometry = buildMesh(computeDepthMap(data, width, height, options), width, height, options);
+                const report = validateMesh(geometry);
+                geometry.dispose();
+                checked++;
+                if (report.nonManifoldEdges > 0 || report.openEdges > 0) {
+                    failures++;
+                    console.error(`${kind} ${widthMm}mm at ${pixelSize.toFixed(2)}mm/px (${width}x${height}px): ` +
+                        `${report.nonManifoldEdges} non-manifold edges, ${report.openEdges} open edges`);
+                }
+            }
+        }
+    }
+}
+
+console.error(failures > 0 ? `${failures} of ${checked} outline meshes have issues` : `All ${checked} outline meshes are manifold and closed`);
+process.exit(failures > 0 ? 1 : 0);
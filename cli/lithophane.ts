@@ -0,0 +1,277 @@
+/**
+ * Headless lithophane generator.
+ *
+ *   npm run cli -- <image.png|jpg> [options.json] [--out <dir>] [--name <basename>] [--3mf] [--outline <shape.svg>] [--frame] [--calibration]
+ *
+ * The options file holds a (partial) ProcessingOptions object and is merged
+ * over the defaults, nested settings field by field; unknown fields and
+ * values of the wrong type are rejected.
+ * --outline cuts the print to the filled paths of an SVG file.
+ * Writes <name>.stl, <name>-preview.png, <name>-adjusted.png (the image as
+ * quantized, after adjustments and filters), <name>-backlit.png and
+ * <name>-difference.png (the predicted look on a light box, and its difference
+ * from the source), <name>-stand.stl and <name>-schedule.txt (level heights
+ * and pause snippets for 0.2mm layers); with --3mf also
+ * <name>.3mf holding the image, border and stand as separate bodies, and with
+ * --frame <name>-frame-bezel.stl and <name>-frame-back.stl for a light-box frame.
+ * --calibration also writes <name>-calibration.stl, a step-wedge tile for
+ * measuring the filament's brightness at the current heights.
+ */
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { DEFAULT_OPTIONS } from '../src/lib/types';
+import type { ProcessingOptions } from '../src/lib/types';
+import { extendToPrint, getTargetSize, runPackagePipeline, runPipeline } from '../src/lib/pipeline';
+import { resampleRGBA } from '../src/lib/resample';
+import { generateStand } from '../src/lib/standGenerator';
+import { generateFrame } from '../src/lib/frameGenerator';
+import { generateCalibrationTile } from '../src/lib/calibration';
+import { planFilamentStack } from '../src/lib/colorStack';
+import { buildLayerSchedule, scheduleReport } from '../src/lib/layerSchedule';
+import { countMeshIssues } from '../src/lib/meshValidation';
+import { extractSvgPaths } from '../src/lib/outline';
+import { activeMaterial, filamentGrams, parseMaterials } from '../src/lib/materials';
+
+interface CliArgs {
+    image: string;
+    optionsFile?: string;
+    outDir: string;
+    name: string;
+    threeMF: boolean;
+    frame: boolean;
+    calibration: boolean;
+    outlineFile?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    const positional: string[] = [];
+    let outDir = '.';
+    let name: string | undefined;
+    let threeMF = false;
+    let frame = false;
+    let calibration = false;
+    let outlineFile: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--out' || arg === '-o') {
+            outDir = argv[++i];
+        } else if (arg === '--name' || arg === '-n') {
+            name = argv[++i];
+        } else if (arg === '--3mf') {
+            threeMF = true;
+        } else if (arg === '--frame') {
+            frame = true;
+        } else if (arg === '--calibration') {
+            calibration = true;
+        } else if (arg === '--outline') {
+            outlineFile = argv[++i];
+        } else if (arg === '--help' || arg === '-h') {
+            usage(0);
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    if (positional.length < 1 || positional.length > 2 || !outDir) usage(1);
+
+    const image = positional[0];
+    return {
+        image,
+        optionsFile: positional[1],
+        outDir,
+        name: name || path.basename(image, path.extname(image)),
+        threeMF,
+        frame,
+        calibration,
+        outlineFile
+    };
+}
+
+function usage(code: number): never {
+    console.log('Usage: lithophane <image.png|jpg> [options.json] [--out <dir>] [--name <basename>] [--3mf] [--outline <shape.svg>] [--frame] [--calibration]');
+    process.exit(code);
+}
+
+async function decodeImage(file: string): Promise<{ data: Uint8ClampedArray; width: number; height: number }> {
+    const buffer = await readFile(file);
+
+    // Sniff the signature rather than trusting the extension
+    if (buffer[0] === 0x89 && buffer[1] === 0x50) {
+        const png = PNG.sync.read(buffer);
+        return { data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length), width: png.width, height: png.height };
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        const jpg = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+        return { data: new Uint8ClampedArray(jpg.data.buffer, jpg.data.byteOffset, jpg.data.length), width: jpg.width, height: jpg.height };
+    }
+    throw new Error(`Unsupported image format: ${file} (expected PNG or JPEG)`);
+}
+
+async function loadOptions(file?: string): Promise<ProcessingOptions> {
+    if (!file) return DEFAULT_OPTIONS;
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await readFile(file, 'utf8'));
+    } catch (err) {
+        throw new Error(`Options file ${file} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    return mergeOptions(DEFAULT_OPTIONS, parsed, '') as ProcessingOptions;
+}
+
+// Optional fields without a default value, and the entry type of lists that
+// are empty by default, for checking what the options file gives
+const FIELD_TEMPLATES: Record<string, unknown> = {
+    'shape.outline.svgPath': '',
+    'shape.outline.svgName': '',
+    'layerVisibility[]': true,
+    'layerThresholds.thresholds[]': 0
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges `value` from the options file over `defaults` (found at `path`),
+ * nested settings field by field, so a file only needs the values it
+ * changes. Lists are replaced whole, and their entries must be complete.
+ * Throws on fields the options don't have and on values of the wrong type.
+ */
+function mergeOptions(defaults: unknown, value: unknown, path: string, complete = false): unknown {
+    const name = path || 'options';
+    // A number is the old box-blur smoothing (see smoothingSettings)
+    if (path === 'smoothing' && typeof value === 'number') return value;
+    // Material profiles have their own reader
+    if (path === 'materials') return parseMaterials(JSON.stringify(value));
+
+    if (isRecord(defaults)) {
+        if (!isRecord(value)) throw new Error(`Option ${name} must be an object`);
+        const merged: Record<string, unknown> = complete ? {} : { ...defaults };
+        for (const [key, field] of Object.entries(value)) {
+            const fieldPath = path ? `${path}.${key}` : key;
+            const base = key in defaults ? defaults[key] : FIELD_TEMPLATES[fieldPath];
+            if (base === undefined) throw new Error(`Unknown option ${fieldPath}`);
+            merged[key] = mergeOptions(base, field, fieldPath);
+        }
+        for (const key of Object.keys(defaults)) {
+            if (!(key in merged)) throw new Error(`Option ${name} is missing ${key}`);
+        }
+        return merged;
+    }
+    if (Array.isArray(defaults)) {
+        if (!Array.isArray(value)) throw new Error(`Option ${name} must be a list`);
+        const entry = defaults.length > 0 ? defaults[0] : FIELD_TEMPLATES[`${path}[]`];
+        return entry === undefined ? value : value.map((item, i) => mergeOptions(entry, item, `${path}[${i}]`, true));
+    }
+    if (typeof value !== typeof defaults) throw new Error(`Option ${name} must be a ${typeof defaults}, not ${JSON.stringify(value)}`);
+    return value;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    let options = await loadOptions(args.optionsFile);
+    if (args.outlineFile) {
+        const svgPath = extractSvgPaths(await readFile(args.outlineFile, 'utf8'));
+        if (!svgPath) throw new Error(`No <path> elements found in ${args.outlineFile}`);
+        options = {
+            ...options,
+            shape: { ...options.shape, type: 'outline', outline: { kind: 'svg', svgPath, svgName: path.basename(args.outlineFile) } }
+        };
+    }
+    const source = await decodeImage(args.image);
+
+    const { width, height, imageHeight } = getTargetSize(source.width, source.height, options);
+    const pixels = extendToPrint(resampleRGBA(source.data, source.width, source.height, width, imageHeight), width, height);
+
+    let lastStage = '';
+    const logStage = (stage: string) => {
+        if (stage !== lastStage) {
+            lastStage = stage;
+            console.error(`${stage}...`);
+        }
+    };
+    // The pipeline adjusts pixels in place, so the 3MF pass gets its own copy
+    const packagePixels = args.threeMF ? pixels.slice() : null;
+    const result = runPipeline(pixels, width, height, options, logStage);
+
+    await mkdir(args.outDir, { recursive: true });
+    const out = (suffix: string) => path.join(args.outDir, args.name + suffix);
+
+    const toPng = (pixels: Uint8ClampedArray) => {
+        const png = new PNG({ width, height });
+        png.data = Buffer.from(pixels.buffer, pixels.byteOffset, pixels.length);
+        return PNG.sync.write(png);
+    };
+
+    const stand = await generateStand(options);
+
+    const printer = { layerHeightMm: 0.2, firstLayerMm: 0.2 };
+    const schedule = buildLayerSchedule(options, result.heights, printer);
+
+    await Promise.all([
+        writeFile(out('.stl'), new Uint8Array(result.stl)),
+        writeFile(out('-preview.png'), toPng(result.preview)),
+        writeFile(out('-adjusted.png'), toPng(result.adjusted)),
+        writeFile(out('-backlit.png'), toPng(result.backlit)),
+        writeFile(out('-difference.png'), toPng(result.difference)),
+        writeFile(out('-stand.stl'), new Uint8Array(await stand.arrayBuffer())),
+        writeFile(out('-schedule.txt'), scheduleReport(schedule, printer, 'M600'))
+    ]);
+
+    if (packagePixels) {
+        lastStage = '';
+        const pkg = runPackagePipeline(packagePixels, width, height, options, { sourceName: path.basename(args.image) }, logStage);
+        await writeFile(out('.3mf'), pkg);
+    }
+
+    if (args.frame) {
+        const frame = await generateFrame(width, height, options);
+        await Promise.all([
+            writeFile(out('-frame-bezel.stl'), new Uint8Array(await frame.bezel.arrayBuffer())),
+            writeFile(out('-frame-back.stl'), new Uint8Array(await frame.back.arrayBuffer()))
+        ]);
+    }
+
+    if (args.calibration) {
+        const tile = await generateCalibrationTile(options);
+        await writeFile(out('-calibration.stl'), new Uint8Array(await tile.arrayBuffer()));
+    }
+
+    const simplified = result.unsimplifiedTriangles > result.report.triangles ? `, simplified from ${result.unsimplifiedTriangles}` : '';
+    console.error(`Wrote ${out('.stl')} (${width}x${height}px, ${result.indices.length / 3} triangles${simplified})`);
+
+    const { report } = result;
+    if (countMeshIssues(report) > 0) {
+        console.error(
+            `Mesh check: ${report.nonManifoldEdges} non-manifold edges, ${report.openEdges} open edges, ` +
+            `${report.windingErrors} flipped edges, ${report.degenerateTriangles} degenerate triangles`
+        );
+    }
+    if (report.shells > 1) console.error(`Mesh check: ${report.shells} separate shells`);
+
+    const { layers } = result;
+    const bounds = layers.thresholds.length > 0 ? ` split at gray ${layers.thresholds.map((t) => t.toFixed(0)).join(', ')}` : '';
+    console.error(`Layers${bounds}: ${layers.layerPixels.join(' / ')} pixels`);
+
+    console.error(`Backlit error: ${result.backlitError.toFixed(1)} (RMS, 0-255)`);
+
+    const material = activeMaterial(options);
+    const weight = material ? `, ${filamentGrams(report.volumeMm3, material).toFixed(1)}g of ${material.name}` : '';
+    console.error(`Filament: ${(report.volumeMm3 / 1000).toFixed(1)}cm³${weight}`);
+
+    const stack = planFilamentStack(options);
+    if (stack) {
+        console.log(`Start with filament ${stack.levelFilament[0] + 1} (${options.color!.filaments[stack.levelFilament[0]].color})`);
+        for (const change of stack.changes) {
+            console.log(`Z ${change.zMm.toFixed(2)}mm: swap to filament ${change.filamentIndex + 1} (${change.color})`);
+        }
+    }
+}
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -1,15 +1,38 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ImageUpload } from './components/ImageUpload';
 import { Controls } from './components/Controls';
 import { ImageCropper } from './components/ImageCropper';
 import { Preview3D } from './components/Preview3D';
-import { Layers, Cuboid, Download, Loader2, ArrowLeft, Crop } from 'lucide-react';
+import { Preview2D } from './components/Preview2D';
+import { LayerSchedule } from './components/LayerSchedule';
+import { MeshCheck } from './components/MeshCheck';
+import { Layers, Cuboid, Download, Loader2, ArrowLeft, Crop, Package, Frame } from 'lucide-react';
 import { DEFAULT_OPTIONS } from './lib/types';
 import type { ProcessingOptions } from './lib/types';
-import { processImage } from './lib/processing';
-import type { ProcessResult } from './lib/processing';
+import { processImage, exportPackage } from './lib/processing';
+import type { ProcessResult, ProcessingStage } from './lib/processing';
 import { generateStand } from './lib/standGenerator';
+import { generateFrame } from './lib/frameGenerator';
+import { activeMaterial } from './lib/materials';
 
+type View2D = 'layers' | 'adjusted' | 'backlit' | 'compare' | 'difference';
+
+const VIEW_2D_LABELS: Record<View2D, string> = {
+  layers: 'Layers',
+  adjusted: 'Adjusted',
+  backlit: 'Backlit',
+  compare: 'Side by Side',
+  difference: 'Difference'
+};
+
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  adjust: 'Adjusting Image',
+  quantize: 'Quantizing Layers',
+  mesh: 'Building Mesh',
+  simplify: 'Simplifying Mesh',
+  validate: 'Checking Mesh',
+  export: 'Exporting STL'
+};
 
 function App() {
   const [file, setFile] = useState<File | null>(null);
@@ -21,10 +44,19 @@ function App() {
   const [options, setOptions] = useState<ProcessingOptions>(DEFAULT_OPTIONS);
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ProcessResult | null>(null);
+  const [progress, setProgress] = useState<{ stage: ProcessingStage; progress: number } | null>(null);
+  const jobRef = useRef<AbortController | null>(null);
   const [isGeneratingStand, setIsGeneratingStand] = useState(false);
+  const [isGeneratingFrame, setIsGeneratingFrame] = useState(false);
+  const [isExportingPackage, setIsExportingPackage] = useState(false);
 
   // View state
   const [viewMode, setViewMode] = useState<'2d' | '3d'>('3d');
+  const [view2D, setView2D] = useState<View2D>('layers');
+  // Backlit error of the previous result, to compare option sets
+  const [previousError, setPreviousError] = useState<number | null>(null);
+  const lastErrorRef = useRef<number | null>(null);
+  const [highlightIssues, setHighlightIssues] = useState(false);
 
 
   const handleImageSelect = (selectedFile: File) => {
@@ -75,17 +107,37 @@ function App() {
   const process = useCallback(async () => {
     if (!sourceUrl || isCropping) return;
 
+    // Cancel any job still running for stale options
+    jobRef.current?.abort();
+    const job = new AbortController();
+    jobRef.current = job;
+
     setIsProcessing(true);
+    setProgress(null);
     try {
-      const res = await processImage(sourceUrl, options);
+      const res = await processImage(sourceUrl, options, {
+        signal: job.signal,
+        onProgress: (stage, progress) => setProgress({ stage, progress })
+      });
+      setPreviousError(lastErrorRef.current);
+      lastErrorRef.current = res.backlitError;
       setResult(res);
     } catch (err) {
-      console.error("Processing failed", err);
+      if (!job.signal.aborted) {
+        console.error("Processing failed", err);
+      }
     } finally {
-      setIsProcessing(false);
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setIsProcessing(false);
+        setProgress(null);
+      }
     }
   }, [sourceUrl, options, isCropping]);
 
+  // Stop the in-flight job as soon as its inputs change, not after the debounce
+  useEffect(() => () => jobRef.current?.abort(), [process]);
+
   // Debounced processing effect
   useEffect(() => {
     if (!file || !sourceUrl || isCropping) return;
@@ -105,14 +157,29 @@ function App() {
     link.click();
   };
 
+  const handleDownloadPackage = async () => {
+    if (!sourceUrl || !file) return;
+    setIsExportingPackage(true);
+    try {
+      const blob = await exportPackage(sourceUrl, options, file.name);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `lithophane-${options.layerCount}layers.3mf`;
+      link.click();
+    } catch (e) {
+      console.error("Failed to export 3MF", e);
+    } finally {
+      setIsExportingPackage(false);
+    }
+  };
+
   const handleDownloadStand = async () => {
     setIsGeneratingStand(true);
     try {
-      const thickness = options.baseMm + options.maxHeight;
-      const blob = await generateStand(thickness);
+      const blob = await generateStand(options);
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
-      link.download = `stand-${thickness.toFixed(1)}mm.stl`;
+      link.download = `stand-${options.shape?.type === 'arc' ? 'curved' : 'straight'}${options.stand?.lightBox ? '-lightbox' : ''}.stl`;
       link.click();
     } catch (e) {
       console.error("Failed to generate stand", e);
@@ -121,6 +188,24 @@ function App() {
     }
   };
 
+  const handleDownloadFrame = async () => {
+    if (!result) return;
+    setIsGeneratingFrame(true);
+    try {
+      const parts = await generateFrame(result.width, result.height, options);
+      for (const [part, blob] of [['bezel', parts.bezel], ['back', parts.back]] as const) {
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `frame-${part}.stl`;
+        link.click();
+      }
+    } catch (e) {
+      console.error("Failed to generate frame", e);
+    } finally {
+      setIsGeneratingFrame(false);
+    }
+  };
+
 
   return (
     <div className="h-screen bg-background text-foreground selection:bg-primary/20 flex flex-col overflow-hidden">
@@ -218,6 +303,7 @@ function App() {
                     options={options}
                     onChange={setOptions}
                     className=""
+                    layers={result?.layers}
                   />
 
                   <div className="pt-6 border-t border-white/10 space-y-4">
@@ -237,16 +323,44 @@ function App() {
                         Download STL
                       </button>
                     )}
+                    {isExportingPackage ? (
+                      <div className="w-full py-2 bg-white/5 rounded-lg flex items-center justify-center gap-2 text-white/50 cursor-not-allowed">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        <span className="text-sm">Packaging 3MF...</span>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={handleDownloadPackage}
+                        title="Download 3MF with image, border and stand as separate bodies"
+                        disabled={!result}
+                        className="w-full py-2 bg-white/10 hover:bg-white/20 text-white/80 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Package className="w-4 h-4" />
+                        Download 3MF (Multi-Body)
+                      </button>
+                    )}
                     <p className="text-xs text-center text-white/30">
                       Includes {result ? (result.stlBlob.size / 1024 / 1024).toFixed(1) : 0}MB mesh
                     </p>
                   </div>
 
+                  {result && (
+                    <MeshCheck
+                      report={result.report}
+                      unsimplifiedTriangles={result.unsimplifiedTriangles}
+                      material={activeMaterial(options)}
+                      highlight={highlightIssues}
+                      onHighlightChange={setHighlightIssues}
+                    />
+                  )}
+
+                  {result && <LayerSchedule options={options} heights={result.heights} />}
+
                   {/* Stand Generator Section */}
                   <div className="pt-6 border-t border-white/10 space-y-3">
                     <h4 className="text-sm font-semibold text-white/80">Accessories</h4>
                     <p className="text-xs text-white/50 mb-2">
-                      Generate a custom stand optimized for your current settings.
+                      Generate a custom stand or light-box frame optimized for your current settings.
                       Perfect for back-lighting.
                     </p>
                     {isGeneratingStand ? (
@@ -264,6 +378,21 @@ function App() {
                         Download Fitted Stand
                       </button>
                     )}
+                    {result && (!options.shape || options.shape.type === 'flat') && (isGeneratingFrame ? (
+                      <div className="w-full py-2 bg-white/5 rounded-lg flex items-center justify-center gap-2 text-white/50 cursor-not-allowed">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        <span className="text-sm">Building Frame...</span>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={handleDownloadFrame}
+                        className="w-full py-2 bg-white/10 hover:bg-white/20 text-white/80 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-white/5"
+                        title="Download a light-box frame (bezel and back cover) fitted for this lithophane"
+                      >
+                        <Frame className="w-4 h-4" />
+                        Download Light-Box Frame
+                      </button>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -273,7 +402,7 @@ function App() {
             <div className="lg:col-span-8 h-full rounded-xl border border-white/10 bg-black/40 backdrop-blur-sm flex flex-col items-center justify-center relative overflow-hidden">
               <div className="absolute top-4 left-4 z-10 flex gap-2">
                 <div className="bg-black/60 backdrop-blur px-3 py-1 rounded text-xs text-white/70 border border-white/5">
-                  {isProcessing ? 'Generating...' : (viewMode === '2d' ? '2D Layer Preview' : '3D Mesh Preview')}
+                  {isProcessing ? 'Generating...' : (viewMode === '2d' ? `2D ${VIEW_2D_LABELS[view2D]} Preview` : '3D Mesh Preview')}
                 </div>
 
                 {/* View Toggle */}
@@ -293,25 +422,64 @@ function App() {
                     3D
                   </button>
                 </div>
+
+                {viewMode === '2d' && (
+                  <div className="flex bg-black/60 backdrop-blur rounded border border-white/5 p-0.5">
+                    {(Object.keys(VIEW_2D_LABELS) as View2D[]).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setView2D(view)}
+                        title={view === 'layers' ? 'Quantized depth' : view === 'difference' ? 'Red: prints brighter than the source, blue: darker' : 'Predicted look on a light box'}
+                        className={`px-3 py-0.5 text-xs rounded transition-colors ${view2D === view ? 'bg-primary text-background font-medium' : 'text-white/50 hover:text-white'}`}
+                      >
+                        {VIEW_2D_LABELS[view]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {viewMode === '2d' && view2D !== 'layers' && view2D !== 'adjusted' && result && (
+                  <div
+                    className="bg-black/60 backdrop-blur px-3 py-1 rounded text-xs text-white/70 border border-white/5 font-mono"
+                    title="RMS brightness difference between the predicted backlit print and the source image (0-255, lower is closer)"
+                  >
+                    Error {result.backlitError.toFixed(1)}
+                    {previousError !== null && previousError !== result.backlitError && (
+                      <span className={result.backlitError < previousError ? 'text-primary' : 'text-amber-400/80'}> (was {previousError.toFixed(1)})</span>
+                    )}
+                  </div>
+                )}
               </div>
 
               {isProcessing && (
                 <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-10 flex flex-col items-center justify-center">
                   <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
-                  <p className="text-white/70 animate-pulse">Computing Geometry...</p>
+                  <p className="text-white/70 animate-pulse">
+                    {progress ? `${STAGE_LABELS[progress.stage]}... ${Math.round(progress.progress * 100)}%` : 'Computing Geometry...'}
+                  </p>
                 </div>
               )}
 
               {result ? (
                 <div className="w-full h-full">
                   {viewMode === '3d' && result.geometry ? (
-                    <Preview3D geometry={result.geometry} imageUrl={result.previewUrl} />
+                    <Preview3D
+                      geometry={result.geometry}
+                      material={activeMaterial(options)}
+                      attenuationPerMm={(options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!).attenuationPerMm}
+                      thinnestMm={options.baseMm + options.minHeight}
+                      highlightFaces={highlightIssues ? result.report.badFaces : undefined}
+                    />
                   ) : (
-                    <div className="w-full h-full flex items-center justify-center p-8">
-                      <img
-                        src={result.previewUrl}
-                        alt="2D Preview"
-                        className="max-w-full max-h-full object-contain rounded shadow-2xl border border-white/10"
+                    <div className="w-full h-full flex items-center justify-center gap-4 p-8">
+                      {view2D === 'compare' && sourceUrl && (
+                        <Preview2D imageUrl={sourceUrl} width={result.width} height={result.imageHeight} hanging={[]} />
+                      )}
+                      <Preview2D
+                        imageUrl={view2D === 'layers' ? result.previewUrl : view2D === 'adjusted' ? result.adjustedUrl : view2D === 'difference' ? result.differenceUrl : result.backlitUrl}
+                        width={result.width}
+                        height={result.height}
+                        hanging={result.hanging}
                       />
                     </div>
                   )}
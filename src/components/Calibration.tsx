@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Camera, Download, Save, Upload } from 'lucide-react';
+import type { ProcessingOptions } from '../lib/types';
+import { DEFAULT_OPTIONS } from '../lib/types';
+import { calibrationThicknesses, DEFAULT_PATCH_COUNT, generateCalibrationTile, parseCalibrationSamples, sampleCalibrationPhoto } from '../lib/calibration';
+import { activeMaterial, materialLibrary, saveMaterial } from '../lib/materials';
+import { measuredMaterial } from '../lib/transmission';
+
+interface CalibrationProps {
+    options: ProcessingOptions;
+    onChange: (options: ProcessingOptions) => void;
+}
+
+async function decodePhoto(file: File): Promise<ImageData> {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Measured brightness tables: download a step-wedge tile, enter the
+ * brightness of each patch as photographed backlit (or sample the photo,
+ * or import a table) and save it to a material profile for measured
+ * thickness mapping.
+ */
+export function Calibration({ options, onChange }: CalibrationProps) {
+    const mapping = options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!;
+    const material = activeMaterial(options);
+    const measured = measuredMaterial(options);
+    const thicknesses = calibrationThicknesses(options, DEFAULT_PATCH_COUNT);
+
+    const [name, setName] = useState(material?.name ?? '');
+    const [rows, setRows] = useState<{ thicknessMm: number; brightness: string }[]>(() =>
+        measured?.samples
+            ? measured.samples.map((sample) => ({ thicknessMm: sample.thicknessMm, brightness: String(sample.brightness) }))
+            : thicknesses.map((thicknessMm) => ({ thicknessMm, brightness: '' }))
+    );
+    const [error, setError] = useState<string | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+
+    const handleDownloadTile = async () => {
+        setIsGenerating(true);
+        try {
+            const blob = await generateCalibrationTile(options);
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(blob);
+            link.download = `calibration-${thicknesses[0].toFixed(1)}-${thicknesses[thicknesses.length - 1].toFixed(1)}mm.stl`;
+            link.click();
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    // The tile's thicknesses follow the current settings, so a fresh table starts from them
+    const resetRows = () => setRows(thicknesses.map((thicknessMm) => ({ thicknessMm, brightness: '' })));
+
+    const handlePhoto = async (file: File) => {
+        try {
+            const photo = await decodePhoto(file);
+            const brightness = sampleCalibrationPhoto(photo.data, photo.width, photo.height, DEFAULT_PATCH_COUNT);
+            setRows(thicknesses.map((thicknessMm, i) => ({ thicknessMm, brightness: brightness[i].toFixed(1) })));
+            setError(null);
+        } catch {
+            setError(`Could not read ${file.name}`);
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const samples = parseCalibrationSamples(await file.text());
+            setRows(samples.map((sample) => ({ thicknessMm: sample.thicknessMm, brightness: String(sample.brightness) })));
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleSave = () => {
+        const profileName = name.trim();
+        const samples = rows
+            .filter((row) => row.brightness.trim() !== '')
+            .map((row) => ({ thicknessMm: row.thicknessMm, brightness: parseFloat(row.brightness) }))
+            .filter((sample) => Number.isFinite(sample.brightness));
+        if (!profileName) {
+            setError('Name the profile first');
+            return;
+        }
+        if (samples.length < 2) {
+            setError('Enter the brightness of at least two patches');
+            return;
+        }
+        setError(null);
+
+        // A new profile starts from the settings the tile was made with
+        const base = materialLibrary(options).find((m) => m.name === profileName) || {
+            name: profileName,
+            color: material?.color ?? '#ffffff',
+            attenuationPerMm: mapping.attenuationPerMm,
+            minHeightMm: options.minHeight,
+            maxHeightMm: options.maxHeight,
+            densityGPerCm3: material?.densityGPerCm3 ?? 1.24
+        };
+        const saved = saveMaterial(options, { ...base, samples });
+        onChange({ ...saved, material: profileName, thicknessMapping: { ...mapping, mode: 'measured' } });
+    };
+
+    return (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+            {!measured && (
+                <p className="text-xs text-amber-400/80">
+                    {material ? `${material.name} has no measured table yet` : 'No material selected'}; thickness stays linear until one is saved.
+                </p>
+            )}
+
+            <button
+                type="button"
+                onClick={handleDownloadTile}
+                disabled={isGenerating}
+                className="w-full py-1.5 text-xs rounded border border-white/10 bg-white/5 text-white/70 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                title="Step wedge with labelled patches from the min to the max height, on the current base"
+            >
+                <Download className="w-3 h-3" />
+                {isGenerating ? 'Generating...' : 'Download Calibration Tile'}
+            </button>
+            <p className="text-xs text-white/40">
+                Print the tile with the filament to measure, light it from behind and enter the brightness of each patch (0-255),
+                or load a photo cropped to the tile's edges, relief side towards the camera.
+            </p>
+
+            <div className="rounded border border-white/5 overflow-hidden">
+                <table className="w-full text-xs font-mono">
+                    <thead className="bg-white/5 text-white/50">
+                        <tr>
+                            <th className="text-left px-2 py-1 font-normal">Thickness</th>
+                            <th className="text-left px-2 py-1 font-normal">Brightness</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, i) => (
+                            <tr key={i} className="border-t border-white/5">
+                                <td className="px-2 py-0.5 text-white/70">{row.thicknessMm.toFixed(2)}mm</td>
+                                <td className="px-2 py-0.5">
+                                    <input
+                                        type="number"
+                                        title={`Brightness at ${row.thicknessMm.toFixed(2)}mm`}
+                                        min="0"
+                                        max="255"
+                                        step="1"
+                                        value={row.brightness}
+                                        onChange={(e) => setRows(rows.map((r, j) => (j === i ? { ...r, brightness: e.target.value } : r)))}
+                                        className="w-full bg-transparent outline-none text-primary"
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex gap-1">
+                <label
+                    title="Sample each patch from a photo of the backlit tile"
+                    className="flex-1 py-1 text-xs rounded border border-dashed border-white/20 text-white/60 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 cursor-pointer"
+                >
+                    <Camera className="w-3 h-3" />
+                    Photo
+                    <input
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handlePhoto(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <label
+                    title="Import thickness and brightness pairs from CSV or JSON"
+                    className="flex-1 py-1 text-xs rounded border border-dashed border-white/20 text-white/60 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 cursor-pointer"
+                >
+                    <Upload className="w-3 h-3" />
+                    CSV / JSON
+                    <input
+                        type="file"
+                        accept=".csv,.txt,.json,text/csv,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button
+                    type="button"
+                    onClick={resetRows}
+                    className="px-2 py-1 text-xs rounded border border-white/10 text-white/50 hover:bg-white/10 transition-colors"
+                    title="Start a new table for the current heights"
+                >
+                    Clear
+                </button>
+            </div>
+
+            <div className="flex gap-1">
+                <input
+                    type="text"
+                    placeholder="Material name, e.g. White PLA"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs focus:border-primary/50 outline-none transition-colors"
+                />
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    className="px-2 py-1 text-xs rounded border border-primary/50 bg-primary/20 text-primary hover:bg-primary/30 transition-colors flex items-center gap-1"
+                    title="Save the table to this material profile and use it"
+                >
+                    <Save className="w-3 h-3" />
+                    Save
+                </button>
+            </div>
+            {error && <p className="text-xs text-amber-400/80">{error}</p>}
+        </div>
+    );
+}
@@ -1,15 +1,84 @@
-import { Ruler, Layers, MoveVertical } from 'lucide-react';
-import type { ProcessingOptions, ShapeType, BorderType } from '../lib/types';
+import { Ruler, Layers, MoveVertical, Palette, Plus, X, Upload, Type } from 'lucide-react';
+import type { ProcessingOptions, ShapeType, BorderType, DitherMode, FilamentSettings, OutlineKind, TextFont, TextPlacement, SmoothingFilter, TextWeight, ThicknessMappingMode, ThresholdMode } from '../lib/types';
+import { DEFAULT_OPTIONS } from '../lib/types';
+import { planFilamentStack } from '../lib/colorStack';
+import { shapeInnerDiameterMm, sphereOpeningMm } from '../lib/mesh';
+import { extractSvgPaths } from '../lib/outline';
+import { unsupportedCharacters } from '../lib/text';
+import type { LayerStatistics } from '../lib/heightmap';
+import { evenThresholds } from '../lib/thresholds';
+import { smoothingSettings } from '../lib/adjustments';
+import { Calibration } from './Calibration';
+import { Histogram } from './Histogram';
+import { Materials } from './Materials';
 import { twMerge } from 'tailwind-merge';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+
+// Common openings for the cylinder's bottom ring, with a little clearance
+const RING_PRESETS = [
+    { label: 'Tea-light', diameterMm: 39 },
+    { label: 'E14', diameterMm: 29 },
+    { label: 'E27', diameterMm: 41 }
+];
+
+const OUTLINE_LABELS: Record<Exclude<OutlineKind, 'svg'>, string> = {
+    heart: 'Heart',
+    star: 'Star',
+    hexagon: 'Hexagon',
+    roundedRect: 'Rounded'
+};
+
+const THICKNESS_MAPPINGS: { mode: ThicknessMappingMode; label: string }[] = [
+    { mode: 'linear', label: 'Linear' },
+    { mode: 'transmission', label: 'Light Transmission' },
+    { mode: 'measured', label: 'Measured' }
+];
+
+const SMOOTHING_FILTERS: { filter: SmoothingFilter; label: string }[] = [
+    { filter: 'none', label: 'Off' },
+    { filter: 'box', label: 'Box' },
+    { filter: 'bilateral', label: 'Bilateral' },
+    { filter: 'median', label: 'Median' },
+    { filter: 'guided', label: 'Guided' }
+];
+
+const THRESHOLD_MODES: { mode: ThresholdMode; label: string }[] = [
+    { mode: 'even', label: 'Even' },
+    { mode: 'otsu', label: 'Otsu' },
+    { mode: 'equalize', label: 'Equalize' },
+    { mode: 'manual', label: 'Manual' }
+];
+
+const DITHER_MODES: { mode: DitherMode; label: string }[] = [
+    { mode: 'none', label: 'Off' },
+    { mode: 'floydSteinberg', label: 'Floyd-Steinberg' },
+    { mode: 'atkinson', label: 'Atkinson' },
+    { mode: 'bayer', label: 'Bayer' },
+    { mode: 'blueNoise', label: 'Blue Noise' }
+];
+
+const TEXT_PLACEMENTS: { placement: TextPlacement; label: string }[] = [
+    { placement: 'border', label: 'On Border' },
+    { placement: 'caption', label: 'Below Image' },
+    { placement: 'back', label: 'On Back' }
+];
 
 interface ControlsProps {
     options: ProcessingOptions;
     onChange: (options: ProcessingOptions) => void;
     className?: string;
+    layers?: LayerStatistics; // From the last processed result
+}
+
+// Pixel counts in a few characters, e.g. 950, 12k, 1.3M
+function formatPixels(count: number): string {
+    if (count >= 1e6) return `${(count / 1e6).toFixed(1)}M`;
+    if (count >= 1e4) return `${Math.round(count / 1e3)}k`;
+    if (count >= 1e3) return `${(count / 1e3).toFixed(1)}k`;
+    return String(count);
 }
 
-export function Controls({ options, onChange, className }: ControlsProps) {
+export function Controls({ options, onChange, className, layers }: ControlsProps) {
     // Ensure visibility array matches layer count
     useEffect(() => {
         if (!options.layerVisibility || options.layerVisibility.length !== options.layerCount) {
@@ -35,7 +104,11 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                     newVis[i] = options.layerVisibility[i];
                 }
             }
-            onChange({ ...options, layerCount: count, layerVisibility: newVis });
+            // Manual boundaries only fit the count they were set for
+            const thresholds = options.layerThresholds?.mode === 'manual'
+                ? { ...options.layerThresholds, thresholds: evenThresholds(count) }
+                : options.layerThresholds;
+            onChange({ ...options, layerCount: count, layerVisibility: newVis, layerThresholds: thresholds });
         } else {
             onChange({ ...options, [key]: value });
         }
@@ -48,6 +121,62 @@ export function Controls({ options, onChange, className }: ControlsProps) {
         updateOption('layerVisibility', newVis);
     };
 
+    const colorSettings = options.color || DEFAULT_OPTIONS.color!;
+    const ring = options.shape?.ring || DEFAULT_OPTIONS.shape.ring!;
+    const outline = options.shape?.outline || DEFAULT_OPTIONS.shape.outline!;
+    const mounting = options.mounting || DEFAULT_OPTIONS.mounting!;
+    const cornerHoles = mounting.cornerHoles || DEFAULT_OPTIONS.mounting!.cornerHoles!;
+    const keyhole = mounting.keyhole || DEFAULT_OPTIONS.mounting!.keyhole!;
+    const loop = mounting.loop || DEFAULT_OPTIONS.mounting!.loop!;
+    const magnets = mounting.magnets || DEFAULT_OPTIONS.mounting!.magnets!;
+    // The loop lies flat beside the print, so only flat shapes can have one
+    const loopAvailable = !options.shape || ['flat', 'circle', 'outline'].includes(options.shape.type);
+    const mapping = options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!;
+    const simplify = options.simplify || DEFAULT_OPTIONS.simplify!;
+    const dither = options.dither || DEFAULT_OPTIONS.dither!;
+    const smoothing = smoothingSettings(options);
+    const localContrast = options.localContrast || DEFAULT_OPTIONS.localContrast!;
+    const sharpen = options.sharpen || DEFAULT_OPTIONS.sharpen!;
+    const thresholdSettings = options.layerThresholds || DEFAULT_OPTIONS.layerThresholds!;
+    // Statistics lag behind while a new layer count is processed
+    const currentLayers = layers && layers.layerPixels.length === options.layerCount ? layers : null;
+    const text = options.text || DEFAULT_OPTIONS.text!;
+    const stand = options.stand || DEFAULT_OPTIONS.stand!;
+    // Cylinders and spheres stand on their own
+    const standAvailable = options.shape?.type !== 'cylinder' && options.shape?.type !== 'sphere';
+    const frame = options.frame || DEFAULT_OPTIONS.frame!;
+    // The frame is a rectangular box, so it fits flat prints
+    const frameAvailable = !options.shape || options.shape.type === 'flat';
+    const missingGlyphs = unsupportedCharacters(text.content, text.font ?? 'sans');
+    const hasBorder = !!options.border && options.border.type !== 'none';
+    // Flat and arc prints without the oval cut keep the image's rectangle
+    const isRectangular = (!options.shape || options.shape.type === 'flat' || options.shape.type === 'arc') && options.border?.type !== 'oval';
+    const [outlineError, setOutlineError] = useState<string | null>(null);
+
+    const handleSvgUpload = async (file: File) => {
+        const svgPath = extractSvgPaths(await file.text());
+        if (!svgPath) {
+            setOutlineError(`No filled <path> found in ${file.name}`);
+            return;
+        }
+        setOutlineError(null);
+        updateOption('shape', { ...options.shape, outline: { kind: 'svg', svgPath, svgName: file.name } });
+    };
+    const filamentStack = planFilamentStack(options);
+
+    const updateFilament = (index: number, patch: Partial<FilamentSettings>) => {
+        const filaments = colorSettings.filaments.map((f, i) => (i === index ? { ...f, ...patch } : f));
+        updateOption('color', { ...colorSettings, filaments });
+    };
+
+    const removeFilament = (index: number) => {
+        updateOption('color', { ...colorSettings, filaments: colorSettings.filaments.filter((_, i) => i !== index) });
+    };
+
+    const addFilament = () => {
+        updateOption('color', { ...colorSettings, filaments: [...colorSettings.filaments, { color: '#ffffff', transmissionMm: 2.0 }] });
+    };
+
     return (
         <div className={twMerge("space-y-6", className)}>
             <div className="space-y-4">
@@ -79,19 +208,197 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                                 key={idx}
                                 onClick={() => toggleLayer(idx)}
                                 className={twMerge(
-                                    "h-8 rounded flex items-center justify-center text-xs font-mono border transition-all",
+                                    "rounded flex flex-col items-center justify-center gap-0.5 text-xs font-mono border transition-all",
+                                    currentLayers ? "h-10" : "h-8",
                                     isVisible
                                         ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
                                         : "bg-white/5 border-transparent text-white/20 hover:bg-white/10"
                                 )}
-                                title={`Toggle Layer ${idx + 1}`}
+                                title={currentLayers ? `Toggle Layer ${idx + 1} (${currentLayers.layerPixels[idx]} pixels)` : `Toggle Layer ${idx + 1}`}
                             >
-                                {idx + 1}
+                                <span className="flex items-center">
+                                    {filamentStack && (
+                                        <span
+                                            className="w-2 h-2 rounded-full mr-1 border border-white/20"
+                                            style={{ backgroundColor: `rgb(${filamentStack.palette[idx].map(Math.round).join(',')})` }}
+                                        />
+                                    )}
+                                    {idx + 1}
+                                </span>
+                                {currentLayers && (
+                                    <span className="text-[10px] leading-none opacity-60">{formatPixels(currentLayers.layerPixels[idx])}</span>
+                                )}
                             </button>
                         ))}
                     </div>
                 )}
                 <p className="text-xs text-white/40">Toggle specific layers on/off.</p>
+
+                {/* Where the layers split the gray range; colour mode picks levels by colour instead */}
+                {!options.color?.enabled && (
+                    <div className="space-y-3">
+                        <span className="text-xs text-white/50">Layer Thresholds</span>
+                        <div className="grid grid-cols-4 gap-1">
+                            {THRESHOLD_MODES.map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => updateOption('layerThresholds', {
+                                        mode,
+                                        // Manual starts from the boundaries in use
+                                        thresholds: mode === 'manual'
+                                            ? currentLayers?.thresholds ?? evenThresholds(options.layerCount)
+                                            : thresholdSettings.thresholds
+                                    })}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        thresholdSettings.mode === mode
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {currentLayers && (
+                            <Histogram
+                                histogram={currentLayers.histogram}
+                                thresholds={currentLayers.thresholds}
+                                layerVisibility={options.layerVisibility}
+                                onChange={(thresholds) => updateOption('layerThresholds', { mode: 'manual', thresholds })}
+                            />
+                        )}
+                        <p className="text-xs text-white/40">
+                            Otsu splits at the natural breaks between tones, Equalize gives every layer the same share of pixels.
+                            Drag a boundary on the histogram to set it by hand.
+                        </p>
+                    </div>
+                )}
+
+                {/* Dithering between layers; colour mode picks levels by colour instead */}
+                {!options.color?.enabled && (
+                    <div className="space-y-3">
+                        <span className="text-xs text-white/50">Dithering</span>
+                        <div className="grid grid-cols-3 gap-1">
+                            {DITHER_MODES.map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => updateOption('dither', { ...dither, mode })}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        dither.mode === mode
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {dither.mode !== 'none' && (
+                            <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                                <Slider label="Strength" unit="%" value={Math.round(dither.strength * 100)} min={0} max={100} step={5}
+                                    onChange={(strength) => updateOption('dither', { ...dither, strength: strength / 100 })} />
+                                <Slider label="Minimum Dot" value={dither.minDotMm} min={0.1} max={2} step={0.05}
+                                    onChange={(minDotMm) => updateOption('dither', { ...dither, minDotMm })} />
+                                <p className="text-xs text-white/40">
+                                    Mixes neighbouring layers so gradients don't band. Keep the minimum dot at or above your nozzle width.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Multi-Filament Color Mode */}
+            <div className="space-y-4 pt-4 border-t border-white/10">
+                <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                        <Palette className="w-4 h-4 text-primary" />
+                        Color Mode
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            title="Enable Color Mode"
+                            checked={colorSettings.enabled}
+                            onChange={(e) => updateOption('color', { ...colorSettings, enabled: e.target.checked })}
+                            className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                        />
+                        <span className="text-xs text-white/80">Multi-Filament</span>
+                    </label>
+                </div>
+
+                {colorSettings.enabled && (
+                    <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                        {colorSettings.filaments.map((filament, idx) => (
+                            <div key={idx} className="flex items-center gap-2">
+                                <span className="text-xs font-mono text-white/40 w-4">{idx + 1}</span>
+                                <input
+                                    type="color"
+                                    title={`Filament ${idx + 1} Color`}
+                                    value={filament.color}
+                                    onChange={(e) => updateFilament(idx, { color: e.target.value })}
+                                    className="w-8 h-8 rounded bg-transparent border border-white/10 cursor-pointer"
+                                />
+                                <input
+                                    type="number"
+                                    title={`Filament ${idx + 1} Transmission Distance`}
+                                    min="0.1"
+                                    max="10"
+                                    step="0.1"
+                                    value={filament.transmissionMm}
+                                    onChange={(e) => updateFilament(idx, { transmissionMm: parseFloat(e.target.value) })}
+                                    className="w-20 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs focus:border-primary/50 outline-none transition-colors"
+                                />
+                                <span className="text-xs text-white/40 flex-1">TD (mm)</span>
+                                <button
+                                    onClick={() => removeFilament(idx)}
+                                    disabled={colorSettings.filaments.length <= 1}
+                                    title={`Remove Filament ${idx + 1}`}
+                                    className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={addFilament}
+                            disabled={colorSettings.filaments.length >= 8}
+                            title="Add Filament"
+                            className="w-full py-1.5 bg-white/5 hover:bg-white/10 text-white/70 text-xs rounded transition-colors flex items-center justify-center gap-1 border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Plus className="w-3 h-3" />
+                            Add Filament
+                        </button>
+                        <p className="text-xs text-white/40">
+                            Stack from bottom (printed first) to top. TD is the thickness at which a filament hides what is below it.
+                        </p>
+                        {options.layerCount < colorSettings.filaments.length && (
+                            <p className="text-xs text-amber-400/80">
+                                Use at least {colorSettings.filaments.length} layers so every filament gets a level.
+                            </p>
+                        )}
+
+                        {filamentStack && (
+                            <div className="space-y-1 pt-2">
+                                <span className="text-xs text-white/50">Filament Changes</span>
+                                <div className="flex items-center gap-2 text-xs font-mono text-white/70">
+                                    <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: colorSettings.filaments[filamentStack.levelFilament[0]].color }} />
+                                    Start: filament {filamentStack.levelFilament[0] + 1}
+                                </div>
+                                {filamentStack.changes.map((change) => (
+                                    <div key={change.level} className="flex items-center gap-2 text-xs font-mono text-white/70">
+                                        <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: change.color }} />
+                                        Z {change.zMm.toFixed(2)}mm → filament {change.filamentIndex + 1}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             <div className="space-y-4">
@@ -156,6 +463,56 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                     />
                 </div>
 
+                {/* Local Contrast (CLAHE) */}
+                <div className="pt-2 border-t border-white/5">
+                    <label className="flex items-center gap-2 cursor-pointer mb-2">
+                        <input
+                            type="checkbox"
+                            title="Local Contrast"
+                            checked={localContrast.enabled}
+                            onChange={(e) => updateOption('localContrast', { ...localContrast, enabled: e.target.checked })}
+                            className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                        />
+                        <span className="text-xs text-white/80">Local Contrast (CLAHE)</span>
+                    </label>
+
+                    {localContrast.enabled && (
+                        <div className="space-y-2 animate-in fade-in slide-in-from-top-1">
+                            <Slider label="Clip Limit" unit="x" value={localContrast.clipLimit} min={1} max={5} step={0.1}
+                                onChange={(clipLimit) => updateOption('localContrast', { ...localContrast, clipLimit })} />
+                            <Slider label="Tile Size" value={localContrast.tileMm} min={5} max={50} step={1}
+                                onChange={(tileMm) => updateOption('localContrast', { ...localContrast, tileMm })} />
+                            <p className="text-xs text-white/40">Brings out detail in shadows and faces; a higher clip limit strengthens it.</p>
+                        </div>
+                    )}
+                </div>
+
+                {/* Sharpening */}
+                <div className="pt-2 border-t border-white/5">
+                    <label className="flex items-center gap-2 cursor-pointer mb-2">
+                        <input
+                            type="checkbox"
+                            title="Sharpen"
+                            checked={sharpen.enabled}
+                            onChange={(e) => updateOption('sharpen', { ...sharpen, enabled: e.target.checked })}
+                            className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                        />
+                        <span className="text-xs text-white/80">Sharpen (Unsharp Mask)</span>
+                    </label>
+
+                    {sharpen.enabled && (
+                        <div className="space-y-2 animate-in fade-in slide-in-from-top-1">
+                            <Slider label="Radius" value={sharpen.radiusMm} min={0.1} max={3} step={0.05}
+                                onChange={(radiusMm) => updateOption('sharpen', { ...sharpen, radiusMm })} />
+                            <Slider label="Amount" unit="x" value={sharpen.amount} min={0} max={3} step={0.1}
+                                onChange={(amount) => updateOption('sharpen', { ...sharpen, amount })} />
+                            <Slider label="Threshold" unit="/255" value={sharpen.threshold} min={0} max={50} step={1}
+                                onChange={(threshold) => updateOption('sharpen', { ...sharpen, threshold })} />
+                            <p className="text-xs text-white/40">Check the result in the Adjusted 2D view.</p>
+                        </div>
+                    )}
+                </div>
+
                 {/* Background Removal */}
                 <div className="pt-2 border-t border-white/5">
                     <label className="flex items-center gap-2 cursor-pointer mb-2">
@@ -198,20 +555,40 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                         Smoothing
                     </label>
                     <span className="text-xs font-mono bg-white/5 px-2 py-1 rounded text-primary">
-                        {Math.round(options.smoothing * 100)}%
+                        {smoothing.filter === 'none' ? 'Off' : `${smoothing.radiusMm}mm`}
                     </span>
                 </div>
-                <input
-                    type="range"
-                    title="Smoothing"
-                    min="0"
-                    max="1"
-                    step="0.1"
-                    value={options.smoothing}
-                    onChange={(e) => updateOption('smoothing', parseFloat(e.target.value))}
-                    className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
-                />
-                <p className="text-xs text-white/40">Blur image to reduce noise before processing.</p>
+                <div className="grid grid-cols-3 gap-1">
+                    {SMOOTHING_FILTERS.map(({ filter, label }) => (
+                        <button
+                            key={filter}
+                            type="button"
+                            onClick={() => updateOption('smoothing', { ...smoothing, filter })}
+                            className={twMerge(
+                                "py-1 text-xs rounded border transition-all",
+                                smoothing.filter === filter
+                                    ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                    : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {smoothing.filter !== 'none' && (
+                    <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                        <Slider label="Radius" value={smoothing.radiusMm} min={0.1} max={3} step={0.05}
+                            onChange={(radiusMm) => updateOption('smoothing', { ...smoothing, radiusMm })} />
+                        {(smoothing.filter === 'bilateral' || smoothing.filter === 'guided') && (
+                            <Slider label="Edge Threshold" unit="/255" value={smoothing.edgeThreshold} min={2} max={100} step={1}
+                                onChange={(edgeThreshold) => updateOption('smoothing', { ...smoothing, edgeThreshold })} />
+                        )}
+                    </div>
+                )}
+                <p className="text-xs text-white/40">
+                    Reduce noise before processing. Bilateral, median and guided filters keep edges such as eyes and text sharp;
+                    the edge threshold is the brightness step that still counts as an edge.
+                </p>
             </div>
 
             <div className="space-y-4">
@@ -237,6 +614,27 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                 <p className="text-xs text-white/40">Solid base layer underneath the lithophane.</p>
             </div>
 
+            <div className="space-y-4">
+                <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                    <span className="text-primary">△</span>
+                    Mesh Simplification
+                </label>
+                <Toggle
+                    label="Merge flat areas into large triangles"
+                    checked={simplify.enabled}
+                    onChange={(enabled) => updateOption('simplify', { ...simplify, enabled })}
+                />
+                {simplify.enabled && (
+                    <div className="animate-in fade-in slide-in-from-top-2">
+                        <Slider label="Tolerance" value={simplify.toleranceMm} min={0} max={0.1} step={0.005}
+                            onChange={(toleranceMm) => updateOption('simplify', { ...simplify, toleranceMm })} />
+                    </div>
+                )}
+                <p className="text-xs text-white/40">Smaller files that slice faster. At 0mm tolerance every height stays exact.</p>
+            </div>
+
+            <Materials options={options} onChange={onChange} />
+
             <div className="space-y-4">
                 <label className="text-sm font-medium flex items-center gap-2 text-white/90">
                     <MoveVertical className="w-4 h-4 text-primary" />
@@ -270,6 +668,39 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                         />
                     </div>
                 </div>
+                {!options.color?.enabled && (
+                    <div className="space-y-3">
+                        <span className="text-xs text-white/50">Thickness Mapping</span>
+                        <div className="grid grid-cols-3 gap-1">
+                            {THICKNESS_MAPPINGS.map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => updateOption('thicknessMapping', { ...mapping, mode })}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        mapping.mode === mode
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {mapping.mode === 'transmission' && (
+                            <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                                <Slider label="Attenuation" unit="/mm" value={mapping.attenuationPerMm} min={0.2} max={4} step={0.1}
+                                    onChange={(attenuationPerMm) => updateOption('thicknessMapping', { ...mapping, attenuationPerMm })} />
+                                <p className="text-xs text-white/40">
+                                    Thickness is chosen so the light let through follows the image, which keeps mid-tones from printing too dark.
+                                    Higher values suit more opaque filaments.
+                                </p>
+                            </div>
+                        )}
+                        {mapping.mode === 'measured' && <Calibration options={options} onChange={onChange} />}
+                    </div>
+                )}
             </div>
 
             <div className="space-y-4">
@@ -337,6 +768,7 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                         <option value="cylinder">Cylinder / Lamp</option>
                         <option value="sphere">Sphere / Moon</option>
                         <option value="circle">Circle / Coin</option>
+                        <option value="outline">Custom Outline</option>
                     </select>
                 </div>
 
@@ -361,63 +793,312 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                         </p>
                     </div>
                 )}
+
+                {options.shape?.type === 'cylinder' && (
+                    <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <p className="text-xs text-white/40">
+                            Width is the circumference: {shapeInnerDiameterMm(options).toFixed(1)}mm inner diameter.
+                            Borders become top and bottom rims.
+                        </p>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                title="Enable Bottom Ring"
+                                checked={ring.enabled}
+                                onChange={(e) => updateOption('shape', { ...options.shape, ring: { ...ring, enabled: e.target.checked } })}
+                                className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                            />
+                            <span className="text-xs text-white/80">Bottom Ring (tea-light / socket)</span>
+                        </label>
+
+                        {ring.enabled && (
+                            <div className="space-y-3">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-1">
+                                        <span className="text-xs text-white/50">Opening (mm)</span>
+                                        <input
+                                            type="number"
+                                            title="Ring Inner Diameter"
+                                            min="5"
+                                            max="200"
+                                            step="0.5"
+                                            value={ring.innerDiameterMm}
+                                            onChange={(e) => updateOption('shape', { ...options.shape, ring: { ...ring, innerDiameterMm: parseFloat(e.target.value) || 0 } })}
+                                            className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <span className="text-xs text-white/50">Ring Height (mm)</span>
+                                        <input
+                                            type="number"
+                                            title="Ring Height"
+                                            min="0.4"
+                                            max="10"
+                                            step="0.2"
+                                            value={ring.heightMm}
+                                            onChange={(e) => updateOption('shape', { ...options.shape, ring: { ...ring, heightMm: parseFloat(e.target.value) || 0 } })}
+                                            className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                                        />
+                                    </div>
+                                </div>
+                                <div className="flex gap-1">
+                                    {RING_PRESETS.map((preset) => (
+                                        <button
+                                            key={preset.label}
+                                            onClick={() => updateOption('shape', { ...options.shape, ring: { ...ring, innerDiameterMm: preset.diameterMm } })}
+                                            title={`${preset.diameterMm}mm opening`}
+                                            className={twMerge(
+                                                "flex-1 py-1 text-xs rounded border transition-all",
+                                                ring.innerDiameterMm === preset.diameterMm
+                                                    ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                                    : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                            )}
+                                        >
+                                            {preset.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {ring.innerDiameterMm >= shapeInnerDiameterMm(options) && (
+                                    <p className="text-xs text-amber-400/80">
+                                        The opening is wider than the cylinder ({shapeInnerDiameterMm(options).toFixed(1)}mm), so no ring is added.
+                                        Increase the width to at least {Math.floor(ring.innerDiameterMm * Math.PI / 5) * 5 + 5}mm.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {options.shape?.type === 'outline' && (
+                    <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <div className="grid grid-cols-4 gap-1">
+                            {(Object.keys(OUTLINE_LABELS) as Exclude<OutlineKind, 'svg'>[]).map((kind) => (
+                                <button
+                                    key={kind}
+                                    onClick={() => updateOption('shape', { ...options.shape, outline: { ...outline, kind } })}
+                                    title={`${OUTLINE_LABELS[kind]} outline`}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        outline.kind === kind
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {OUTLINE_LABELS[kind]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex gap-1">
+                            <label
+                                title="Load an SVG file; its filled paths become the outline"
+                                className="flex-1 py-1 text-xs rounded border border-dashed border-white/20 text-white/60 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 cursor-pointer"
+                            >
+                                <Upload className="w-3 h-3" />
+                                Load SVG
+                                <input
+                                    type="file"
+                                    accept=".svg,image/svg+xml"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) handleSvgUpload(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                            {outline.svgPath && (
+                                <button
+                                    onClick={() => updateOption('shape', { ...options.shape, outline: { ...outline, kind: 'svg' } })}
+                                    title={outline.svgName}
+                                    className={twMerge(
+                                        "flex-1 py-1 text-xs rounded border transition-all truncate px-2",
+                                        outline.kind === 'svg'
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {outline.svgName || 'Custom SVG'}
+                                </button>
+                            )}
+                        </div>
+                        {outlineError && <p className="text-xs text-amber-400/80">{outlineError}</p>}
+                        <p className="text-xs text-white/40">
+                            The outline is scaled to fit the image; borders follow it at their set width.
+                        </p>
+                    </div>
+                )}
+
+                {options.shape?.type === 'sphere' && (
+                    <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                        <p className="text-xs text-white/40">
+                            Width is the equator: {shapeInnerDiameterMm(options).toFixed(1)}mm inner diameter.
+                            Borders reinforce the rim of the LED opening.
+                        </p>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1">
+                                <span className="text-xs text-white/50">LED Opening (mm)</span>
+                                <input
+                                    type="number"
+                                    title="LED Opening Diameter (0 = closed sphere)"
+                                    min="0"
+                                    max="200"
+                                    step="0.5"
+                                    value={options.shape.openingMm ?? 0}
+                                    onChange={(e) => updateOption('shape', { ...options.shape, openingMm: parseFloat(e.target.value) || 0 })}
+                                    className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                                />
+                            </div>
+                            {sphereOpeningMm(options) > 0 && (
+                                <div className="space-y-1">
+                                    <span className="text-xs text-white/50">Base Ring Height (mm)</span>
+                                    <input
+                                        type="number"
+                                        title="Base Ring Height"
+                                        min="0.4"
+                                        max="10"
+                                        step="0.2"
+                                        disabled={!ring.enabled}
+                                        value={ring.heightMm}
+                                        onChange={(e) => updateOption('shape', { ...options.shape, ring: { ...ring, heightMm: parseFloat(e.target.value) || 0 } })}
+                                        className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors disabled:opacity-50"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                        {(options.shape.openingMm ?? 0) > sphereOpeningMm(options) && (
+                            <p className="text-xs text-amber-400/80">
+                                The opening is limited to {sphereOpeningMm(options).toFixed(1)}mm for this sphere size.
+                            </p>
+                        )}
+                        {sphereOpeningMm(options) > 0 && (
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    title="Enable Base Ring"
+                                    checked={ring.enabled}
+                                    onChange={(e) => updateOption('shape', { ...options.shape, ring: { ...ring, enabled: e.target.checked } })}
+                                    className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                                />
+                                <span className="text-xs text-white/80">Base Ring (printed alongside, fits the opening)</span>
+                            </label>
+                        )}
+                    </div>
+                )}
             </div>
 
-            {/* Mounting Hole */}
+            {/* Hanging */}
             <div className="space-y-4 pt-4 border-t border-white/10">
-                <div className="flex items-center justify-between">
-                    <label className="text-sm font-medium flex items-center gap-2 text-white/90">
-                        <span className="text-primary">◎</span>
-                        Mounting
-                    </label>
-                    <label className="flex items-center gap-2 cursor-pointer">
-                        <input
-                            type="checkbox"
-                            title="Enable Hole"
-                            checked={options.mounting?.enabled || false}
-                            onChange={(e) => updateOption('mounting', { ...(options.mounting || { diameterMm: 5, offsetMm: 5 }), enabled: e.target.checked })}
-                            className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
-                        />
-                        <span className="text-xs text-white/80">Enable Hole</span>
-                    </label>
-                </div>
+                <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                    <span className="text-primary">◎</span>
+                    Hanging
+                </label>
 
-                {options.mounting?.enabled && (
+                <Toggle
+                    label="Centre Hole"
+                    checked={mounting.enabled}
+                    onChange={(enabled) => updateOption('mounting', { ...mounting, enabled })}
+                />
+                {mounting.enabled && (
                     <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <span className="text-xs text-white/50">Diameter (mm)</span>
-                                <span className="text-xs font-mono text-primary">{options.mounting.diameterMm}mm</span>
-                            </div>
-                            <input
-                                type="range"
-                                title="Diameter"
-                                min="2"
-                                max="20"
-                                step="1"
-                                value={options.mounting.diameterMm}
-                                onChange={(e) => updateOption('mounting', { ...options.mounting!, diameterMm: parseFloat(e.target.value) })}
-                                className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
-                            />
+                        <Slider label="Diameter" value={mounting.diameterMm} min={2} max={20} step={1}
+                            onChange={(diameterMm) => updateOption('mounting', { ...mounting, diameterMm })} />
+                        <Slider label="Top Offset" value={mounting.offsetMm} min={2} max={50} step={1}
+                            onChange={(offsetMm) => updateOption('mounting', { ...mounting, offsetMm })} />
+                    </div>
+                )}
+
+                <Toggle
+                    label="Corner Holes"
+                    checked={cornerHoles.enabled}
+                    onChange={(enabled) => updateOption('mounting', { ...mounting, cornerHoles: { ...cornerHoles, enabled } })}
+                />
+                {cornerHoles.enabled && (
+                    <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                        <Slider label="Diameter" value={cornerHoles.diameterMm} min={2} max={12} step={0.5}
+                            onChange={(diameterMm) => updateOption('mounting', { ...mounting, cornerHoles: { ...cornerHoles, diameterMm } })} />
+                        <Slider label="Inset" value={cornerHoles.insetMm} min={2} max={40} step={0.5}
+                            onChange={(insetMm) => updateOption('mounting', { ...mounting, cornerHoles: { ...cornerHoles, insetMm } })} />
+                    </div>
+                )}
+
+                <Toggle
+                    label="Keyhole Slot (back)"
+                    checked={keyhole.enabled}
+                    onChange={(enabled) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, enabled } })}
+                />
+                {keyhole.enabled && (
+                    <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                        <Slider label="Head" value={keyhole.headDiameterMm} min={5} max={15} step={0.5}
+                            onChange={(headDiameterMm) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, headDiameterMm } })} />
+                        <Slider label="Slot Width" value={keyhole.slotWidthMm} min={2} max={8} step={0.5}
+                            onChange={(slotWidthMm) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, slotWidthMm } })} />
+                        <Slider label="Slot Length" value={keyhole.slotLengthMm} min={3} max={20} step={0.5}
+                            onChange={(slotLengthMm) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, slotLengthMm } })} />
+                        <Slider label="Depth" value={keyhole.depthMm} min={1} max={5} step={0.1}
+                            onChange={(depthMm) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, depthMm } })} />
+                        <Slider label="Top Offset" value={keyhole.offsetMm} min={5} max={60} step={1}
+                            onChange={(offsetMm) => updateOption('mounting', { ...mounting, keyhole: { ...keyhole, offsetMm } })} />
+                    </div>
+                )}
+
+                {loopAvailable && (
+                    <Toggle
+                        label="Ornament Loop"
+                        checked={loop.enabled}
+                        onChange={(enabled) => updateOption('mounting', { ...mounting, loop: { ...loop, enabled } })}
+                    />
+                )}
+                {loopAvailable && loop.enabled && (
+                    <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                        <Slider label="Outer" value={loop.outerDiameterMm} min={5} max={25} step={0.5}
+                            onChange={(outerDiameterMm) => updateOption('mounting', { ...mounting, loop: { ...loop, outerDiameterMm } })} />
+                        <Slider label="Hole" value={loop.holeDiameterMm} min={2} max={20} step={0.5}
+                            onChange={(holeDiameterMm) => updateOption('mounting', { ...mounting, loop: { ...loop, holeDiameterMm } })} />
+                        {loop.holeDiameterMm >= loop.outerDiameterMm && (
+                            <p className="col-span-2 text-xs text-amber-400/80">The hole must be smaller than the loop.</p>
+                        )}
+                    </div>
+                )}
+
+                <Toggle
+                    label="Magnet Pockets (back)"
+                    checked={magnets.enabled}
+                    onChange={(enabled) => updateOption('mounting', { ...mounting, magnets: { ...magnets, enabled } })}
+                />
+                {magnets.enabled && (
+                    <div className="space-y-4 animate-in fade-in slide-in-from-top-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            {([2, 4] as const).map((count) => (
+                                <button
+                                    key={count}
+                                    type="button"
+                                    onClick={() => updateOption('mounting', { ...mounting, magnets: { ...magnets, count } })}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        magnets.count === count
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {count === 2 ? 'Top Corners' : 'All Corners'}
+                                </button>
+                            ))}
                         </div>
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <span className="text-xs text-white/50">Top Offset (mm)</span>
-                                <span className="text-xs font-mono text-primary">{options.mounting.offsetMm}mm</span>
-                            </div>
-                            <input
-                                type="range"
-                                title="Top Offset"
-                                min="2"
-                                max="50"
-                                step="1"
-                                value={options.mounting.offsetMm}
-                                onChange={(e) => updateOption('mounting', { ...options.mounting!, offsetMm: parseFloat(e.target.value) })}
-                                className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
-                            />
+                        <div className="grid grid-cols-2 gap-4">
+                            <Slider label="Diameter" value={magnets.diameterMm} min={3} max={20} step={0.1}
+                                onChange={(diameterMm) => updateOption('mounting', { ...mounting, magnets: { ...magnets, diameterMm } })} />
+                            <Slider label="Depth" value={magnets.depthMm} min={0.5} max={5} step={0.1}
+                                onChange={(depthMm) => updateOption('mounting', { ...mounting, magnets: { ...magnets, depthMm } })} />
+                            <Slider label="Inset" value={magnets.insetMm} min={4} max={40} step={0.5}
+                                onChange={(insetMm) => updateOption('mounting', { ...mounting, magnets: { ...magnets, insetMm } })} />
                         </div>
                     </div>
                 )}
+                {(keyhole.enabled || magnets.enabled) && (
+                    <p className="text-xs text-white/40">
+                        Pockets are cut into the back and get a solid, full-height floor, so they show as dark patches when lit.
+                    </p>
+                )}
             </div>
 
             <label className="flex items-center gap-3 cursor-pointer group">
@@ -491,7 +1172,275 @@ export function Controls({ options, onChange, className }: ControlsProps) {
                         </div>
                     </div>
                 )}
+
+                {isRectangular && (
+                    <div className="space-y-2">
+                        <div className="flex justify-between">
+                            <span className="text-xs text-white/50">Corner Radius (mm)</span>
+                            <span className="text-xs font-mono text-primary">{options.border?.cornerRadiusMm ?? 0}mm</span>
+                        </div>
+                        <input
+                            type="range"
+                            title="Corner Radius"
+                            min="0"
+                            max="30"
+                            step="1"
+                            value={options.border?.cornerRadiusMm ?? 0}
+                            onChange={(e) => updateOption('border', { ...(options.border || DEFAULT_OPTIONS.border), cornerRadiusMm: parseFloat(e.target.value) })}
+                            className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Text */}
+            <div className="space-y-4 pt-4 border-t border-white/10">
+                <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                        <Type className="w-4 h-4 text-primary" />
+                        Text
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            title="Enable Text"
+                            checked={text.enabled}
+                            onChange={(e) => updateOption('text', { ...text, enabled: e.target.checked })}
+                            className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                        />
+                        <span className="text-xs text-white/80">Add Text</span>
+                    </label>
+                </div>
+
+                {text.enabled && (
+                    <div className="space-y-4 animate-in fade-in slide-in-from-top-2">
+                        <input
+                            type="text"
+                            title="Text"
+                            placeholder="Name, date or message"
+                            value={text.content}
+                            onChange={(e) => updateOption('text', { ...text, content: e.target.value })}
+                            className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                        />
+                        {missingGlyphs.length > 0 && (
+                            <p className="text-xs text-amber-400/80">
+                                Not in this font, left blank: {missingGlyphs.join(' ')}
+                            </p>
+                        )}
+
+                        <div className="grid grid-cols-3 gap-2">
+                            {TEXT_PLACEMENTS.map(({ placement, label }) => (
+                                <button
+                                    key={placement}
+                                    type="button"
+                                    onClick={() => updateOption('text', { ...text, placement })}
+                                    className={twMerge(
+                                        "py-1 text-xs rounded border transition-all",
+                                        text.placement === placement
+                                            ? "bg-primary/20 border-primary/50 text-primary hover:bg-primary/30"
+                                            : "bg-white/5 border-transparent text-white/50 hover:bg-white/10"
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {text.placement === 'border' && !hasBorder && (
+                            <p className="text-xs text-amber-400/80">Choose a border style to place text on it.</p>
+                        )}
+                        {text.placement === 'border' && hasBorder && text.sizeMm > options.border.widthMm && (
+                            <p className="text-xs text-amber-400/80">Text taller than the border is cut off at its edges.</p>
+                        )}
+                        {text.placement === 'caption' && (options.shape?.type === 'circle' || options.shape?.type === 'outline') && (
+                            <p className="text-xs text-amber-400/80">A caption strip needs a rectangular print; use On Border or On Back.</p>
+                        )}
+                        {text.placement === 'caption' && options.shape?.type !== 'circle' && options.shape?.type !== 'outline' && (
+                            <p className="text-xs text-white/40">Lengthens the print by a strip below the image.</p>
+                        )}
+                        {text.placement === 'back' && (
+                            <p className="text-xs text-white/40">Mirrored, so it reads correctly from behind.</p>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <div className="flex justify-between">
+                                    <span className="text-xs text-white/50">Size (mm)</span>
+                                    <span className="text-xs font-mono text-primary">{text.sizeMm}mm</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    title="Text Size"
+                                    min="2"
+                                    max="20"
+                                    step="0.5"
+                                    value={text.sizeMm}
+                                    onChange={(e) => updateOption('text', { ...text, sizeMm: parseFloat(e.target.value) })}
+                                    className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex justify-between">
+                                    <span className="text-xs text-white/50">{text.engraved ? 'Engrave' : 'Raise'} (mm)</span>
+                                    <span className="text-xs font-mono text-primary">{text.depthMm}mm</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    title="Text Depth"
+                                    min="0.2"
+                                    max="3"
+                                    step="0.1"
+                                    value={text.depthMm}
+                                    onChange={(e) => updateOption('text', { ...text, depthMm: parseFloat(e.target.value) })}
+                                    className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-2">
+                            <select
+                                title="Text Font"
+                                value={text.font ?? 'sans'}
+                                onChange={(e) => updateOption('text', { ...text, font: e.target.value as TextFont })}
+                                className="bg-white/5 hover:bg-white/10 transition-colors border border-white/10 rounded px-2 py-1 text-xs outline-none focus:border-primary/50 cursor-pointer [&>option]:bg-zinc-900 [&>option]:text-white"
+                            >
+                                <option value="sans">Sans</option>
+                                <option value="pixel">Pixel</option>
+                            </select>
+                            <select
+                                title="Text Weight"
+                                value={text.weight}
+                                onChange={(e) => updateOption('text', { ...text, weight: e.target.value as TextWeight })}
+                                className="bg-white/5 hover:bg-white/10 transition-colors border border-white/10 rounded px-2 py-1 text-xs outline-none focus:border-primary/50 cursor-pointer [&>option]:bg-zinc-900 [&>option]:text-white"
+                            >
+                                <option value="light">Light</option>
+                                <option value="regular">Regular</option>
+                                <option value="bold">Bold</option>
+                            </select>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    title="Engrave Text"
+                                    checked={text.engraved}
+                                    onChange={(e) => updateOption('text', { ...text, engraved: e.target.checked })}
+                                    className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                                />
+                                <span className="text-xs text-white/80">Engraved</span>
+                            </label>
+                        </div>
+                    </div>
+                )}
             </div>
+
+            {/* Stand */}
+            {standAvailable && (
+                <div className="space-y-4 pt-4 border-t border-white/10">
+                    <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                        <span className="text-primary">⊥</span>
+                        Stand
+                    </label>
+                    {options.shape?.type === 'arc' && (
+                        <p className="text-xs text-white/40">
+                            The slot curves to match the arc, so the print stands upright in it.
+                        </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <Slider label="Width" unit="%" value={stand.widthPercent} min={20} max={100} step={5}
+                            onChange={(widthPercent) => updateOption('stand', { ...stand, widthPercent })} />
+                        {options.shape?.type !== 'arc' && (
+                            <Slider label="Tilt" unit="°" value={stand.tiltDeg} min={0} max={25} step={1}
+                                onChange={(tiltDeg) => updateOption('stand', { ...stand, tiltDeg })} />
+                        )}
+                        <Slider label="Slot Tolerance" value={stand.toleranceMm} min={0.2} max={4} step={0.1}
+                            onChange={(toleranceMm) => updateOption('stand', { ...stand, toleranceMm })} />
+                        <Slider label="Front Lip" value={stand.frontLipMm} min={4} max={30} step={1}
+                            onChange={(frontLipMm) => updateOption('stand', { ...stand, frontLipMm })} />
+                        <Slider label="Back Support" value={stand.backSupportMm} min={4} max={60} step={1}
+                            onChange={(backSupportMm) => updateOption('stand', { ...stand, backSupportMm })} />
+                    </div>
+                    <Toggle
+                        label="Light Box (LED strip channel behind the slot)"
+                        checked={stand.lightBox}
+                        onChange={(lightBox) => updateOption('stand', { ...stand, lightBox })}
+                    />
+                    {stand.lightBox && (
+                        <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                            <Slider label="LED Channel" value={stand.ledChannelMm} min={5} max={25} step={0.5}
+                                onChange={(ledChannelMm) => updateOption('stand', { ...stand, ledChannelMm })} />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Light-Box Frame */}
+            {frameAvailable && (
+                <div className="space-y-4 pt-4 border-t border-white/10">
+                    <label className="text-sm font-medium flex items-center gap-2 text-white/90">
+                        <span className="text-primary">▣</span>
+                        Light-Box Frame
+                    </label>
+                    <p className="text-xs text-white/40">
+                        A front bezel and a back cover sized to the print, with room for an LED panel behind it.
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                        <Slider label="Wall" value={frame.wallMm} min={1.2} max={5} step={0.2}
+                            onChange={(wallMm) => updateOption('frame', { ...frame, wallMm })} />
+                        <Slider label="Front Lip" value={frame.lipMm} min={1} max={15} step={0.5}
+                            onChange={(lipMm) => updateOption('frame', { ...frame, lipMm })} />
+                        <Slider label="Light Gap" value={frame.lightGapMm} min={3} max={30} step={1}
+                            onChange={(lightGapMm) => updateOption('frame', { ...frame, lightGapMm })} />
+                        <Slider label="Fit Tolerance" value={frame.toleranceMm} min={0.1} max={1.5} step={0.1}
+                            onChange={(toleranceMm) => updateOption('frame', { ...frame, toleranceMm })} />
+                        <Slider label="Cable Notch" value={frame.cableNotchMm} min={4} max={16} step={0.5}
+                            onChange={(cableNotchMm) => updateOption('frame', { ...frame, cableNotchMm })} />
+                    </div>
+                </div>
+            )}
         </div >
     );
 }
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+    return (
+        <label className="flex items-center gap-2 cursor-pointer">
+            <input
+                type="checkbox"
+                title={label}
+                checked={checked}
+                onChange={(e) => onChange(e.target.checked)}
+                className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+            />
+            <span className="text-xs text-white/80">{label}</span>
+        </label>
+    );
+}
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    onChange: (value: number) => void;
+}
+
+function Slider({ label, value, min, max, step, unit = 'mm', onChange }: SliderProps) {
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between">
+                <span className="text-xs text-white/50">{label} ({unit})</span>
+                <span className="text-xs font-mono text-primary">{value}{unit}</span>
+            </div>
+            <input
+                type="range"
+                title={label}
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                className="w-full accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
+            />
+        </div>
+    );
+}
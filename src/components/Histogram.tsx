@@ -0,0 +1,88 @@
+import { useRef, useState } from 'react';
+import { thresholdLayer } from '../lib/thresholds';
+
+interface HistogramProps {
+    histogram: number[]; // Pixels per gray value 0-255
+    thresholds: number[]; // Gray boundaries between the layers
+    layerVisibility?: boolean[];
+    onChange: (thresholds: number[]) => void; // Called once a boundary is dropped
+}
+
+const HEIGHT = 48;
+
+/**
+ * Gray histogram of the adjusted image with the layer boundaries on top;
+ * boundaries can be dragged along it. Bars of hidden layers are dimmed.
+ */
+export function Histogram({ histogram, thresholds, layerVisibility, onChange }: HistogramProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [drag, setDrag] = useState<{ index: number; gray: number } | null>(null);
+    const shown = drag ? thresholds.map((t, i) => (i === drag.index ? drag.gray : t)) : thresholds;
+
+    // Square root so the sparse tones still show next to a dominant one
+    const peak = Math.sqrt(Math.max(1, ...histogram));
+
+    const grayAt = (clientX: number, index: number): number => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        const gray = Math.round(((clientX - rect.left) / rect.width) * 256);
+        // Boundaries keep their order and never leave a layer without a gray value
+        const low = index > 0 ? Math.ceil(thresholds[index - 1]) + 1 : 1;
+        const high = index < thresholds.length - 1 ? Math.floor(thresholds[index + 1]) - 1 : 255;
+        return Math.max(low, Math.min(high, gray));
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            viewBox={`0 0 256 ${HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-12 rounded bg-white/5 touch-none select-none"
+            role="img"
+            aria-label="Gray histogram with layer boundaries"
+            onPointerMove={(e) => drag && setDrag({ index: drag.index, gray: grayAt(e.clientX, drag.index) })}
+            onPointerUp={() => {
+                if (!drag) return;
+                onChange(shown);
+                setDrag(null);
+            }}
+            onPointerCancel={() => setDrag(null)}
+        >
+            {histogram.map((count, gray) => {
+                const layer = thresholdLayer(gray, shown);
+                const visible = layerVisibility?.[layer] ?? true;
+                const barHeight = (Math.sqrt(count) / peak) * HEIGHT;
+                return (
+                    <rect
+                        key={gray}
+                        x={gray}
+                        y={HEIGHT - barHeight}
+                        width={1}
+                        height={barHeight}
+                        className={visible ? (layer % 2 === 0 ? 'fill-white/40' : 'fill-white/25') : 'fill-white/10'}
+                    />
+                );
+            })}
+            {shown.map((gray, index) => (
+                <g
+                    key={index}
+                    className="cursor-ew-resize"
+                    onPointerDown={(e) => {
+                        e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                        setDrag({ index, gray });
+                    }}
+                >
+                    <rect x={gray - 3} y={0} width={6} height={HEIGHT} className="fill-transparent" />
+                    <line
+                        x1={gray}
+                        x2={gray}
+                        y1={0}
+                        y2={HEIGHT}
+                        strokeWidth={drag?.index === index ? 2 : 1}
+                        vectorEffect="non-scaling-stroke"
+                        className="stroke-primary"
+                    />
+                </g>
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { ListOrdered, Copy, Download, Check } from 'lucide-react';
+import type { ProcessingOptions } from '../lib/types';
+import { buildLayerSchedule, pauseSnippet, scheduleReport } from '../lib/layerSchedule';
+import type { HeightSummary, PauseCommand, SlicerFlavor } from '../lib/layerSchedule';
+
+interface LayerScheduleProps {
+    options: ProcessingOptions;
+    heights: HeightSummary;
+}
+
+const SLICER_LABELS: Record<SlicerFlavor, string> = {
+    prusa: 'PrusaSlicer / Orca / Bambu',
+    cura: 'Cura',
+    gcode: 'Raw G-code'
+};
+
+export function LayerSchedule({ options, heights }: LayerScheduleProps) {
+    const [layerHeightMm, setLayerHeightMm] = useState(0.2);
+    const [firstLayerMm, setFirstLayerMm] = useState(0.2);
+    const [flavor, setFlavor] = useState<SlicerFlavor>('prusa');
+    const [command, setCommand] = useState<PauseCommand>('M600');
+    const [copied, setCopied] = useState(false);
+
+    const printer = useMemo(() => ({ layerHeightMm, firstLayerMm }), [layerHeightMm, firstLayerMm]);
+    const schedule = useMemo(() => buildLayerSchedule(options, heights, printer), [options, heights, printer]);
+    const snippet = pauseSnippet(schedule, flavor, command);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(snippet);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([scheduleReport(schedule, printer, command)], { type: 'text/plain' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `lithophane-${options.layerCount}layers-schedule.txt`;
+        link.click();
+    };
+
+    return (
+        <div className="pt-6 border-t border-white/10 space-y-3">
+            <h4 className="text-sm font-semibold text-white/80 flex items-center gap-2">
+                <ListOrdered className="w-4 h-4 text-primary" />
+                Layer Schedule
+            </h4>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                    <span className="text-xs text-white/50">Layer Height (mm)</span>
+                    <input
+                        type="number"
+                        title="Printer Layer Height"
+                        min="0.04"
+                        max="0.4"
+                        step="0.02"
+                        value={layerHeightMm}
+                        onChange={(e) => setLayerHeightMm(parseFloat(e.target.value) || 0.2)}
+                        className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <span className="text-xs text-white/50">First Layer (mm)</span>
+                    <input
+                        type="number"
+                        title="First Layer Height"
+                        min="0.04"
+                        max="0.5"
+                        step="0.02"
+                        value={firstLayerMm}
+                        onChange={(e) => setFirstLayerMm(parseFloat(e.target.value) || 0.2)}
+                        className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm focus:border-primary/50 outline-none transition-colors"
+                    />
+                </div>
+            </div>
+
+            <div className="rounded border border-white/5 overflow-hidden">
+                <table className="w-full text-xs font-mono">
+                    <thead className="bg-white/5 text-white/50">
+                        <tr>
+                            <th className="text-left px-2 py-1 font-normal">Level</th>
+                            <th className="text-right px-2 py-1 font-normal">Z (mm)</th>
+                            <th className="text-right px-2 py-1 font-normal">Layer</th>
+                            <th className="text-right px-2 py-1 font-normal">Pixels</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {schedule.entries.map((entry) => (
+                            <tr key={entry.level} className={entry.pixels === 0 ? 'text-white/25' : 'text-white/70'}>
+                                <td className="px-2 py-0.5">
+                                    {entry.level + 1}
+                                    {schedule.swaps.some((s) => s.afterLevel === entry.level) && <span className="text-primary"> ⏸</span>}
+                                </td>
+                                <td className="text-right px-2 py-0.5" title={`Exact ${entry.topZ.toFixed(3)}mm`}>{entry.snappedZ.toFixed(2)}</td>
+                                <td className="text-right px-2 py-0.5">{entry.layerIndex + 1}</td>
+                                <td className="text-right px-2 py-0.5">{entry.pixels}</td>
+                            </tr>
+                        ))}
+                        {schedule.borderTop && (
+                            <tr className="text-white/50 border-t border-white/5">
+                                <td className="px-2 py-0.5">Border</td>
+                                <td className="text-right px-2 py-0.5">{schedule.borderTop.snappedZ.toFixed(2)}</td>
+                                <td colSpan={2} />
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {schedule.warnings.map((warning) => (
+                <p key={warning} className="text-xs text-amber-400/80">{warning}</p>
+            ))}
+
+            <div className="flex gap-2">
+                <select
+                    title="Slicer"
+                    aria-label="Slicer"
+                    value={flavor}
+                    onChange={(e) => setFlavor(e.target.value as SlicerFlavor)}
+                    className="flex-1 bg-white/5 hover:bg-white/10 transition-colors border border-white/10 rounded px-2 py-1 text-xs outline-none focus:border-primary/50 cursor-pointer [&>option]:bg-zinc-900 [&>option]:text-white"
+                >
+                    {(Object.keys(SLICER_LABELS) as SlicerFlavor[]).map((key) => (
+                        <option key={key} value={key}>{SLICER_LABELS[key]}</option>
+                    ))}
+                </select>
+                <select
+                    title="Pause Command"
+                    aria-label="Pause Command"
+                    value={command}
+                    onChange={(e) => setCommand(e.target.value as PauseCommand)}
+                    className="bg-white/5 hover:bg-white/10 transition-colors border border-white/10 rounded px-2 py-1 text-xs outline-none focus:border-primary/50 cursor-pointer [&>option]:bg-zinc-900 [&>option]:text-white"
+                >
+                    <option value="M600">M600</option>
+                    <option value="M0">M0</option>
+                    <option value="PAUSE">PAUSE (Klipper)</option>
+                </select>
+            </div>
+
+            {schedule.swaps.length > 0 ? (
+                <pre className="text-xs font-mono bg-black/40 border border-white/5 rounded p-2 overflow-x-auto text-white/70 whitespace-pre">{snippet}</pre>
+            ) : (
+                <p className="text-xs text-white/40">No pauses needed for the current settings.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={handleCopy}
+                    disabled={schedule.swaps.length === 0}
+                    title="Copy snippet"
+                    className="py-2 bg-white/10 hover:bg-white/20 text-white/80 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                    onClick={handleDownload}
+                    title="Download the full schedule with snippets for every slicer"
+                    className="py-2 bg-white/10 hover:bg-white/20 text-white/80 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-white/5"
+                >
+                    <Download className="w-4 h-4" />
+                    Schedule
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { Droplet, Download, Upload, Save, RotateCcw, X } from 'lucide-react';
+import type { MaterialProfile, ProcessingOptions } from '../lib/types';
+import { DEFAULT_OPTIONS } from '../lib/types';
+import { activeMaterial, applyMaterial, exportMaterials, isBuiltinMaterial, materialLibrary, parseMaterials, removeMaterial, saveMaterial } from '../lib/materials';
+
+interface MaterialsProps {
+    options: ProcessingOptions;
+    onChange: (options: ProcessingOptions) => void;
+}
+
+/**
+ * Material library: picking a profile takes over its thickness range and
+ * attenuation; its colour tints the 3D preview and its density gives the
+ * filament weight. User-defined profiles are kept with the settings and
+ * can be exported and imported as JSON.
+ */
+export function Materials({ options, onChange }: MaterialsProps) {
+    const library = materialLibrary(options);
+    const material = activeMaterial(options);
+    const mapping = options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!;
+    const custom = !!material && !!options.materials?.some((m) => m.name === material.name);
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    // Current settings differ from the profile's recommendation
+    const drifted = !!material && (
+        material.minHeightMm !== options.minHeight ||
+        material.maxHeightMm !== options.maxHeight ||
+        material.attenuationPerMm !== mapping.attenuationPerMm
+    );
+
+    const fromSettings = (profile: MaterialProfile): MaterialProfile => ({
+        ...profile,
+        attenuationPerMm: mapping.attenuationPerMm,
+        minHeightMm: options.minHeight,
+        maxHeightMm: options.maxHeight
+    });
+
+    // Edits to a built-in profile are saved as a user-defined one of the same name
+    const updateMaterial = (patch: Partial<MaterialProfile>) => {
+        if (!material) return;
+        onChange(saveMaterial(options, { ...material, ...patch }));
+    };
+
+    const handleSaveAs = () => {
+        const name = newName.trim();
+        if (!name) return;
+        const profile: MaterialProfile = {
+            name,
+            color: material?.color ?? '#ffffff',
+            attenuationPerMm: mapping.attenuationPerMm,
+            minHeightMm: options.minHeight,
+            maxHeightMm: options.maxHeight,
+            densityGPerCm3: material?.densityGPerCm3 ?? 1.24
+        };
+        onChange({ ...saveMaterial(options, profile), material: name });
+        setNewName('');
+    };
+
+    const handleExport = () => {
+        // User-defined profiles, or the active one if there are none
+        const profiles = options.materials?.length ? options.materials : material ? [material] : [];
+        const blob = new Blob([exportMaterials(profiles)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'lithophane-materials.json';
+        link.click();
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseMaterials(await file.text());
+            onChange(imported.reduce((next, profile) => saveMaterial(next, profile), options));
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <label htmlFor="material-select" className="text-sm font-medium flex items-center gap-2 text-white/90">
+                    <Droplet className="w-4 h-4 text-primary" />
+                    Material
+                </label>
+                <select
+                    id="material-select"
+                    title="Material"
+                    aria-label="Material"
+                    value={material?.name ?? ''}
+                    onChange={(e) => {
+                        const profile = library.find((m) => m.name === e.target.value);
+                        if (profile) onChange(applyMaterial(options, profile));
+                    }}
+                    className="max-w-[60%] bg-white/5 hover:bg-white/10 transition-colors border border-white/10 rounded px-2 py-1 text-xs outline-none focus:border-primary/50 cursor-pointer [&>option]:bg-zinc-900 [&>option]:text-white"
+                >
+                    {!material && <option value="">None</option>}
+                    {library.map((m) => (
+                        <option key={m.name} value={m.name}>
+                            {m.name}{isBuiltinMaterial(m.name) ? '' : ' (custom)'}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {material && (
+                <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="color"
+                            title="Filament Color"
+                            value={material.color}
+                            onChange={(e) => updateMaterial({ color: e.target.value })}
+                            className="w-8 h-8 rounded bg-transparent border border-white/10 cursor-pointer"
+                        />
+                        <input
+                            type="number"
+                            title="Density"
+                            min="0.5"
+                            max="3"
+                            step="0.01"
+                            value={material.densityGPerCm3}
+                            onChange={(e) => updateMaterial({ densityGPerCm3: parseFloat(e.target.value) || material.densityGPerCm3 })}
+                            className="w-20 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs focus:border-primary/50 outline-none transition-colors"
+                        />
+                        <span className="text-xs text-white/40 flex-1">g/cm³</span>
+                        {custom && (
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    const next = removeMaterial(options, material.name);
+                                    onChange(isBuiltinMaterial(material.name) ? next : { ...next, material: undefined });
+                                }}
+                                title={isBuiltinMaterial(material.name) ? `Reset ${material.name} to the built-in profile` : `Delete ${material.name}`}
+                                className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                            >
+                                {isBuiltinMaterial(material.name) ? <RotateCcw className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-xs text-white/40">
+                        {material.minHeightMm}-{material.maxHeightMm}mm, attenuation {material.attenuationPerMm}/mm
+                        {material.samples?.length ? `, ${material.samples.length} measured samples` : ''}.
+                    </p>
+                    {drifted && (
+                        <div className="flex gap-1">
+                            <button
+                                type="button"
+                                onClick={() => onChange(applyMaterial(options, material))}
+                                className="flex-1 py-1 text-xs rounded border border-white/10 bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                                title="Set the thickness range and attenuation from the profile"
+                            >
+                                Use Profile Values
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onChange(saveMaterial(options, fromSettings(material)))}
+                                className="flex-1 py-1 text-xs rounded border border-white/10 bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                                title="Store the current thickness range and attenuation in the profile"
+                            >
+                                Update Profile
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-1">
+                <input
+                    type="text"
+                    placeholder="New material from current settings"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs focus:border-primary/50 outline-none transition-colors"
+                />
+                <button
+                    type="button"
+                    onClick={handleSaveAs}
+                    disabled={!newName.trim()}
+                    className="px-2 py-1 text-xs rounded border border-white/10 bg-white/5 text-white/70 hover:bg-white/10 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Save the current settings as a new material"
+                >
+                    <Save className="w-3 h-3" />
+                    Save
+                </button>
+            </div>
+            <div className="flex gap-1">
+                <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={!material && !options.materials?.length}
+                    className="flex-1 py-1 text-xs rounded border border-white/10 text-white/60 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Download your materials as JSON"
+                >
+                    <Download className="w-3 h-3" />
+                    Export
+                </button>
+                <label
+                    title="Load materials from a JSON file"
+                    className="flex-1 py-1 text-xs rounded border border-dashed border-white/20 text-white/60 hover:bg-white/10 transition-colors flex items-center justify-center gap-1 cursor-pointer"
+                >
+                    <Upload className="w-3 h-3" />
+                    Import
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+            </div>
+            {error && <p className="text-xs text-amber-400/80">{error}</p>}
+        </div>
+    );
+}
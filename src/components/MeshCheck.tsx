@@ -0,0 +1,83 @@
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+import type { MeshReport } from '../lib/meshValidation';
+import { countMeshIssues } from '../lib/meshValidation';
+import type { MaterialProfile } from '../lib/types';
+import { filamentGrams } from '../lib/materials';
+
+interface MeshCheckProps {
+    report: MeshReport;
+    unsimplifiedTriangles: number; // Before simplification; the report's count when it is off
+    material: MaterialProfile | null; // For the filament weight
+    highlight: boolean;
+    onHighlightChange: (highlight: boolean) => void;
+}
+
+export function MeshCheck({ report, unsimplifiedTriangles, material, highlight, onHighlightChange }: MeshCheckProps) {
+    const issues = countMeshIssues(report);
+    const rows: [string, number, string][] = [
+        ['Non-manifold edges', report.nonManifoldEdges, 'Edges shared by more than two faces'],
+        ['Open edges', report.openEdges, 'Holes in the surface'],
+        ['Flipped faces', report.windingErrors, 'Edges whose neighbouring faces disagree on which side is outside'],
+        ['Degenerate faces', report.degenerateTriangles, 'Faces with zero area']
+    ];
+
+    return (
+        <div className="pt-6 border-t border-white/10 space-y-3">
+            <h4 className="text-sm font-semibold text-white/80 flex items-center gap-2">
+                {issues === 0 ? <ShieldCheck className="w-4 h-4 text-primary" /> : <AlertTriangle className="w-4 h-4 text-amber-400" />}
+                Mesh Check
+                <span className={`ml-auto text-xs font-normal ${issues === 0 ? 'text-white/40' : 'text-amber-400/80'}`}>
+                    {issues === 0 ? 'Watertight' : `${issues} issue${issues === 1 ? '' : 's'}`}
+                </span>
+            </h4>
+
+            <div className="flex justify-between text-xs">
+                <span className="text-white/50">Triangles</span>
+                <span className="font-mono text-white/70">
+                    {unsimplifiedTriangles > report.triangles && (
+                        <span className="text-white/40">{unsimplifiedTriangles.toLocaleString()} → </span>
+                    )}
+                    {report.triangles.toLocaleString()}
+                </span>
+            </div>
+            <div className="flex justify-between text-xs" title={material ? `At ${material.densityGPerCm3} g/cm³ (${material.name}), solid infill` : 'Select a material for the weight'}>
+                <span className="text-white/50">Filament</span>
+                <span className="font-mono text-white/70">
+                    {(report.volumeMm3 / 1000).toFixed(1)} cm³
+                    {material && <span className="text-white/40"> · {filamentGrams(report.volumeMm3, material).toFixed(1)} g</span>}
+                </span>
+            </div>
+
+            {issues > 0 && (
+                <div className="space-y-1">
+                    {rows.filter(([, count]) => count > 0).map(([label, count, title]) => (
+                        <div key={label} className="flex justify-between text-xs" title={title}>
+                            <span className="text-white/50">{label}</span>
+                            <span className="font-mono text-amber-400/80">{count}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {report.shells > 1 && (
+                <p className="text-xs text-white/40">
+                    The model has {report.shells} separate shells. Overlapping ones, like the socket ring or hanging loop, are
+                    merged by the slicer; free-floating islands may not print well.
+                </p>
+            )}
+
+            {report.badFaces.length > 0 && (
+                <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        title="Highlight Mesh Issues"
+                        checked={highlight}
+                        onChange={(e) => onHighlightChange(e.target.checked)}
+                        className="w-4 h-4 rounded border-white/20 bg-white/5 checked:bg-primary transition-colors cursor-pointer"
+                    />
+                    Highlight {report.badFaces.length} affected faces in 3D view
+                </label>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,51 @@
+import type { HangingFeature } from '../lib/hanging';
+import { hangingFeaturePath } from '../lib/hanging';
+
+interface Preview2DProps {
+    imageUrl: string;
+    width: number; // Image size in pixels
+    height: number;
+    hanging: HangingFeature[];
+}
+
+const FEATURE_STYLES: Record<HangingFeature['role'], string> = {
+    hole: 'fill-none stroke-primary',
+    pocket: 'fill-amber-400/25 stroke-amber-400', // In the back, so drawn see-through
+    loop: 'fill-white/80 stroke-white'
+};
+
+export function Preview2D({ imageUrl, width, height, hanging }: Preview2DProps) {
+    // Grow the view past the image for features outside it, like the loop
+    let minX = 0, minY = 0, maxX = width, maxY = height;
+    for (const feature of hanging) {
+        for (const { x, y, r, length } of feature.shapes) {
+            minX = Math.min(minX, x - r);
+            minY = Math.min(minY, y - length - r);
+            maxX = Math.max(maxX, x + r);
+            maxY = Math.max(maxY, y + r);
+        }
+    }
+
+    return (
+        <svg
+            viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+            className="w-full h-full"
+            role="img"
+            aria-label="2D Preview"
+        >
+            <image href={imageUrl} width={width} height={height} />
+            <rect width={width} height={height} className="fill-none stroke-white/10" vectorEffect="non-scaling-stroke" />
+            {hanging.map((feature, i) => (
+                <path
+                    key={i}
+                    d={hangingFeaturePath(feature)}
+                    fillRule="evenodd"
+                    strokeWidth={1.5}
+                    strokeDasharray={feature.role === 'pocket' ? '4 3' : undefined}
+                    vectorEffect="non-scaling-stroke"
+                    className={FEATURE_STYLES[feature.role]}
+                />
+            ))}
+        </svg>
+    );
+}
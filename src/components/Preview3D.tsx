@@ -1,57 +1,127 @@
-import { useRef, useEffect, useState } from 'react';
+import { useEffect, useState, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Center, PerspectiveCamera, Environment } from '@react-three/drei';
 import * as THREE from 'three';
+import type { MaterialProfile } from '../lib/types';
 
 interface Preview3DProps {
+    geometry: THREE.BufferGeometry; // With a per-vertex `thickness` attribute for the backlit view
+    material?: MaterialProfile | null; // Filament colour
+    attenuationPerMm: number; // How quickly the filament absorbs light
+    thinnestMm: number; // Thickness of the lightest image pixels, base included
+    highlightFaces?: Uint32Array; // Triangle indices to paint over in red
+}
+
+// Light through a slab of filament falls off as exp(-mu x) (Beer–Lambert),
+// the same model the transmission thickness mapping uses
+const BACKLIT_VERTEX = /* glsl */ `
+    attribute float thickness;
+    varying float vThickness;
+    void main() {
+        vThickness = thickness;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+`;
+
+const BACKLIT_FRAGMENT = /* glsl */ `
+    uniform vec3 lightColor;
+    uniform vec3 filamentColor;
+    uniform float attenuation;
+    uniform float exposure;
+    varying float vThickness;
+    void main() {
+        float transmitted = exp(-attenuation * max(vThickness, 0.0));
+        gl_FragColor = vec4(lightColor * filamentColor * transmitted * exposure, 1.0);
+        #include <colorspace_fragment>
+    }
+`;
+
+interface Backlight {
+    color: string;
+    intensity: number; // 1 shows the thinnest part of the image at full brightness
+}
+
+interface LithophaneMeshProps {
     geometry: THREE.BufferGeometry;
-    imageUrl?: string;
+    material?: MaterialProfile | null;
+    attenuationPerMm: number;
+    thinnestMm: number;
+    backlight: Backlight | null; // Off when null
 }
 
-function LithophaneMesh({ geometry, isBacklit }: { geometry: THREE.BufferGeometry; imageUrl?: string; isBacklit: boolean }) {
-    const meshRef = useRef<THREE.Mesh>(null);
-    const materialRef = useRef<THREE.MeshPhysicalMaterial>(null);
+function LithophaneMesh({ geometry, material, attenuationPerMm, thinnestMm, backlight }: LithophaneMeshProps) {
+    const lightColor = backlight?.color ?? '#ffffff';
+    const intensity = backlight?.intensity ?? 1;
+    const filamentColor = material?.color ?? '#ffffff';
+    const uniforms = useMemo(() => ({
+        lightColor: { value: new THREE.Color(lightColor) },
+        filamentColor: { value: new THREE.Color(filamentColor) },
+        attenuation: { value: attenuationPerMm },
+        // Scale so the thinnest image pixels come out white at intensity 1
+        exposure: { value: intensity * Math.exp(attenuationPerMm * thinnestMm) }
+    }), [lightColor, filamentColor, attenuationPerMm, thinnestMm, intensity]);
 
-    // Auto-rotate slightly if desired, or just static
-    // useFrame((state, delta) => {
-    //   if (meshRef.current) meshRef.current.rotation.y += delta * 0.1;
-    // });
+    return (
+        <mesh geometry={geometry} castShadow receiveShadow>
+            {backlight ? (
+                <shaderMaterial
+                    vertexShader={BACKLIT_VERTEX}
+                    fragmentShader={BACKLIT_FRAGMENT}
+                    uniforms={uniforms}
+                    side={THREE.DoubleSide}
+                    // Tone mapping would flatten the contrast being judged
+                    toneMapped={false}
+                />
+            ) : (
+                <meshPhysicalMaterial
+                    color={material?.color ?? "#ffffff"}
+                    roughness={0.4}
+                    metalness={0.1}
+                    side={THREE.DoubleSide}
+                />
+            )}
+        </mesh>
+    );
+}
+
+// Overlay of the given triangles, sharing the position buffer of the main
+// geometry so it follows the re-centering done below.
+function IssueOverlay({ geometry, faces }: { geometry: THREE.BufferGeometry; faces: Uint32Array }) {
+    const overlay = useMemo(() => {
+        const index = geometry.getIndex();
+        const corners = new Uint32Array(faces.length * 3);
+        for (let i = 0; i < faces.length; i++) {
+            for (let k = 0; k < 3; k++) {
+                const c = faces[i] * 3 + k;
+                corners[i * 3 + k] = index ? index.getX(c) : c;
+            }
+        }
+        const geom = new THREE.BufferGeometry();
+        geom.setAttribute('position', geometry.getAttribute('position'));
+        geom.setIndex(new THREE.BufferAttribute(corners, 1));
+        return geom;
+    }, [geometry, faces]);
+
+    useEffect(() => () => overlay.dispose(), [overlay]);
 
     return (
-        <mesh ref={meshRef} geometry={geometry} castShadow receiveShadow>
-            {/* 
-         Material Strategy:
-         - Standard Lithophane: White plastic.
-         - When backlit: The thinner parts should be brighter.
-         - MeshPhysicalMaterial with transmission can simulate this but is computationally heavy and scale-dependent.
-         - Simple Hack: Use the original image as an emissive map when "backlit" is on? 
-           - But that defeats the purpose of seeing the *geometry* effect.
-           - We want to replicate the physics: Thinner = brighter.
-           - If we just use a standard material and put a light BEHIND it, 
-             standard material doesn't transmit light.
-             
-         - Better Approach for "Simulation":
-           - Use a custom shader or specialized material settings.
-           - Or, actually allow the light to pass through by using `transmission`.
-           - Let's try MeshPhysicalMaterial.
-       */}
-            <meshPhysicalMaterial
-                ref={materialRef}
-                color={isBacklit ? "#ffeedd" : "#ffffff"}
-                roughness={0.4}
-                metalness={0.1}
-                transmission={isBacklit ? 0.6 : 0.0} // Allow light through
-                thickness={2.0} // Physical thickness for transmission calculation
-                ior={1.5}
+        <mesh geometry={overlay} renderOrder={1}>
+            <meshBasicMaterial
+                color="#ff3344"
                 side={THREE.DoubleSide}
+                polygonOffset
+                polygonOffsetFactor={-1}
+                polygonOffsetUnits={-1}
             />
         </mesh>
     );
 }
 
-export function Preview3D({ geometry, imageUrl }: Preview3DProps) {
+export function Preview3D({ geometry, material, attenuationPerMm, thinnestMm, highlightFaces }: Preview3DProps) {
     const [isBacklit, setIsBacklit] = useState(false);
     const [autoRotate, setAutoRotate] = useState(false);
+    const [lightColor, setLightColor] = useState('#fff4e0'); // Warm white LED
+    const [intensity, setIntensity] = useState(1);
 
     // Re-center geometry when it changes
     useEffect(() => {
@@ -70,6 +140,27 @@ export function Preview3D({ geometry, imageUrl }: Preview3DProps) {
                 >
                     {isBacklit ? '💡 Backlight ON' : '🌑 Backlight OFF'}
                 </button>
+                {isBacklit && (
+                    <div className="flex items-center gap-2 px-1">
+                        <input
+                            type="color"
+                            title="Light Color"
+                            value={lightColor}
+                            onChange={(e) => setLightColor(e.target.value)}
+                            className="w-6 h-6 rounded bg-transparent border border-white/10 cursor-pointer"
+                        />
+                        <input
+                            type="range"
+                            title={`Light Intensity (${intensity}x)`}
+                            min="0.25"
+                            max="4"
+                            step="0.05"
+                            value={intensity}
+                            onChange={(e) => setIntensity(parseFloat(e.target.value))}
+                            className="w-24 accent-primary h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                )}
                 <button
                     onClick={() => setAutoRotate(!autoRotate)}
                     title={autoRotate ? 'Turn Rotate OFF' : 'Turn Rotate ON'}
@@ -87,16 +178,8 @@ export function Preview3D({ geometry, imageUrl }: Preview3DProps) {
                 {/* Environment / Lighting */}
 
                 {isBacklit ? (
-                    <>
-                        {/* Backlight Mode: Dark ambient, strong light BEHIND the model */}
-                        <ambientLight intensity={0.1} />
-                        {/* Light positioned behind the mesh (mesh is at 0,0,0) */}
-                        <pointLight position={[0, 0, -50]} intensity={1000} color="#ffaa55" distance={200} decay={2} />
-                        <pointLight position={[0, 0, -20]} intensity={500} color="#ffffff" distance={100} decay={2} />
-
-                        {/* Subtle front light to see surface texture */}
-                        <directionalLight position={[10, 10, 50]} intensity={0.2} />
-                    </>
+                    // Backlight Mode: the shader computes the transmitted light itself
+                    <color attach="background" args={['#050505']} />
                 ) : (
                     <>
                         {/* Standard Mode: Good studio lighting to see the relief */}
@@ -108,7 +191,14 @@ export function Preview3D({ geometry, imageUrl }: Preview3DProps) {
                 )}
 
                 <Center>
-                    <LithophaneMesh geometry={geometry} imageUrl={imageUrl} isBacklit={isBacklit} />
+                    <LithophaneMesh
+                        geometry={geometry}
+                        material={material}
+                        attenuationPerMm={attenuationPerMm}
+                        thinnestMm={thinnestMm}
+                        backlight={isBacklit ? { color: lightColor, intensity } : null}
+                    />
+                    {highlightFaces && highlightFaces.length > 0 && <IssueOverlay geometry={geometry} faces={highlightFaces} />}
                 </Center>
             </Canvas>
         </div>
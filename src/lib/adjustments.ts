@@ -0,0 +1,334 @@
+import type { ProcessingOptions, SmoothingSettings } from './types';
+import { DEFAULT_OPTIONS } from './types';
+import { luminance } from './heightmap';
+
+/**
+ * The smoothing filter settings. Settings saved before there were filters
+ * hold a 0-1 box blur amount instead (up to 3 pixels of radius).
+ */
+export function smoothingSettings(options: ProcessingOptions): SmoothingSettings {
+    const smoothing = options.smoothing as SmoothingSettings | number | undefined;
+    if (typeof smoothing === 'number') {
+        return smoothing > 0
+            ? { ...DEFAULT_OPTIONS.smoothing!, filter: 'box', radiusMm: Math.max(1, Math.round(smoothing * 3)) * (options.pixelSize || 0.15) }
+            : DEFAULT_OPTIONS.smoothing!;
+    }
+    return smoothing || DEFAULT_OPTIONS.smoothing!;
+}
+
+/** Applies the smoothing filter to RGBA pixels in place. */
+export function applySmoothing(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions) {
+    const smoothing = smoothingSettings(options);
+    if (smoothing.filter === 'none' || smoothing.radiusMm <= 0) return;
+
+    const radius = Math.max(1, Math.round(smoothing.radiusMm / (options.pixelSize || 0.15)));
+    switch (smoothing.filter) {
+        case 'box':
+            data.set(applyBlur(data, width, height, radius));
+            break;
+        case 'bilateral':
+            data.set(applyBilateral(data, width, height, radius, smoothing.edgeThreshold));
+            break;
+        case 'median':
+            data.set(applyMedian(data, width, height, radius));
+            break;
+        case 'guided':
+            data.set(applyGuided(data, width, height, radius, smoothing.edgeThreshold));
+            break;
+    }
+}
+
+export function applyImageAdjustments(data: Uint8ClampedArray, options: ProcessingOptions) {
+    const { contrast = 1.0, brightness = 1.0, gamma = 1.0 } = options;
+
+    // Create lookup tables for speed if needed, but per-pixel is fine for this size
+    for (let i = 0; i < data.length; i += 4) {
+        // Normalize 0-1
+        let r = data[i] / 255;
+        let g = data[i + 1] / 255;
+        let b = data[i + 2] / 255;
+
+        // Apply Brightness
+        r *= brightness;
+        g *= brightness;
+        b *= brightness;
+
+        // Apply Contrast
+        // factor = (259 * (contrast + 255)) / (255 * (259 - contrast)) ? No, simple usually works:
+        // centered at 0.5: color = (color - 0.5) * contrast + 0.5
+        r = (r - 0.5) * contrast + 0.5;
+        g = (g - 0.5) * contrast + 0.5;
+        b = (b - 0.5) * contrast + 0.5;
+
+        // Apply Gamma
+        // val = val ^ (1/gamma)
+        if (gamma !== 1.0 && gamma > 0) {
+            r = Math.pow(Math.max(0, r), 1 / gamma);
+            g = Math.pow(Math.max(0, g), 1 / gamma);
+            b = Math.pow(Math.max(0, b), 1 / gamma);
+        }
+
+        // Clamp
+        data[i] = Math.min(255, Math.max(0, r * 255));
+        data[i + 1] = Math.min(255, Math.max(0, g * 255));
+        data[i + 2] = Math.min(255, Math.max(0, b * 255));
+    }
+}
+
+/**
+ * Contrast-limited adaptive histogram equalization (CLAHE) of the
+ * brightness, in place: each tile of about `tileMm` gets its own tone
+ * curve, with histogram peaks clipped at `clipLimit` times the average so
+ * flat areas don't turn into noise. Curves are blended between tile centres.
+ * The brightness change is added to all three channels.
+ */
+export function applyLocalContrast(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions) {
+    const settings = options.localContrast;
+    if (!settings?.enabled) return;
+
+    const gray = lumaChannel(data);
+    const tilePx = Math.max(8, settings.tileMm / (options.pixelSize || 0.15));
+    const tilesX = Math.max(1, Math.round(width / tilePx));
+    const tilesY = Math.max(1, Math.round(height / tilePx));
+
+    // Tone curve of every tile
+    const curves: Float32Array[] = [];
+    for (let ty = 0; ty < tilesY; ty++) {
+        for (let tx = 0; tx < tilesX; tx++) {
+            const x0 = Math.floor((tx * width) / tilesX), x1 = Math.floor(((tx + 1) * width) / tilesX);
+            const y0 = Math.floor((ty * height) / tilesY), y1 = Math.floor(((ty + 1) * height) / tilesY);
+            const histogram = new Float32Array(256);
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) histogram[Math.min(255, Math.round(gray[y * width + x]))]++;
+            }
+            const count = (x1 - x0) * (y1 - y0);
+            const limit = Math.max(1, settings.clipLimit) * (count / 256);
+            let excess = 0;
+            for (let v = 0; v < 256; v++) {
+                if (histogram[v] > limit) {
+                    excess += histogram[v] - limit;
+                    histogram[v] = limit;
+                }
+            }
+            const curve = new Float32Array(256);
+            let cumulative = 0;
+            for (let v = 0; v < 256; v++) {
+                const bin = histogram[v] + excess / 256;
+                curve[v] = ((cumulative + bin / 2) / count) * 255;
+                cumulative += bin;
+            }
+            curves.push(curve);
+        }
+    }
+
+    const tileW = width / tilesX;
+    const tileH = height / tilesY;
+    for (let y = 0; y < height; y++) {
+        const fy = Math.max(0, Math.min(tilesY - 1, (y + 0.5) / tileH - 0.5));
+        const ty0 = Math.floor(fy), ty1 = Math.min(tilesY - 1, ty0 + 1), ay = fy - ty0;
+        for (let x = 0; x < width; x++) {
+            const fx = Math.max(0, Math.min(tilesX - 1, (x + 0.5) / tileW - 0.5));
+            const tx0 = Math.floor(fx), tx1 = Math.min(tilesX - 1, tx0 + 1), ax = fx - tx0;
+            const i = y * width + x;
+            const v = Math.min(255, Math.round(gray[i]));
+            const top = curves[ty0 * tilesX + tx0][v] * (1 - ax) + curves[ty0 * tilesX + tx1][v] * ax;
+            const bottom = curves[ty1 * tilesX + tx0][v] * (1 - ax) + curves[ty1 * tilesX + tx1][v] * ax;
+            addBrightness(data, i * 4, top * (1 - ay) + bottom * ay - gray[i]);
+        }
+    }
+}
+
+/**
+ * Unsharp mask on the brightness, in place: adds `amount` times the
+ * difference from a blur of about `radiusMm`, where that difference is at
+ * least `threshold`.
+ */
+export function applySharpen(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions) {
+    const settings = options.sharpen;
+    if (!settings?.enabled || settings.amount <= 0) return;
+
+    // Two box passes of half the radius come close to a Gaussian
+    const half = Math.max(1, Math.round(settings.radiusMm / (options.pixelSize || 0.15) / 2));
+    const gray = lumaChannel(data);
+    const blurred = boxMean(boxMean(gray, width, height, half), width, height, half);
+    for (let i = 0; i < gray.length; i++) {
+        const detail = gray[i] - blurred[i];
+        if (Math.abs(detail) >= settings.threshold) addBrightness(data, i * 4, settings.amount * detail);
+    }
+}
+
+/** Box blur over a (2 * radius + 1) square, shrunk at the image edges. */
+export function applyBlur(src: Uint8ClampedArray, w: number, h: number, radius: number): Uint8ClampedArray {
+    const output = new Uint8ClampedArray(src.length);
+    for (let c = 0; c < 3; c++) {
+        const mean = boxMean(channel(src, c), w, h, radius);
+        for (let i = 0; i < mean.length; i++) output[i * 4 + c] = mean[i];
+    }
+    copyAlpha(src, output);
+    return output;
+}
+
+/**
+ * Bilateral filter: a Gaussian blur whose neighbours count less the more
+ * their brightness differs, so edges that step by more than about
+ * `edgeThreshold` gray levels stay sharp. Run as a horizontal and a vertical
+ * pass, which costs O(radius) per pixel instead of O(radius²).
+ */
+export function applyBilateral(src: Uint8ClampedArray, w: number, h: number, radius: number, edgeThreshold: number): Uint8ClampedArray {
+    const sigma = Math.max(0.5, radius / 2);
+    const spatial = Array.from({ length: radius + 1 }, (_, d) => Math.exp(-(d * d) / (2 * sigma * sigma)));
+    const range = Float32Array.from({ length: 256 }, (_, d) => Math.exp(-(d * d) / (2 * Math.max(1, edgeThreshold) ** 2)));
+
+    const pass = (input: Uint8ClampedArray, horizontal: boolean): Uint8ClampedArray => {
+        const output = new Uint8ClampedArray(input.length);
+        const gray = new Uint8Array(w * h);
+        for (let i = 0; i < gray.length; i++) gray[i] = Math.round(luminance(input[i * 4], input[i * 4 + 1], input[i * 4 + 2]));
+        const length = horizontal ? w : h;
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const i = y * w + x;
+                const at = horizontal ? x : y;
+                const stride = horizontal ? 1 : w;
+                let r = 0, g = 0, b = 0, total = 0;
+                for (let d = -Math.min(radius, at); d <= Math.min(radius, length - 1 - at); d++) {
+                    const n = i + d * stride;
+                    const weight = spatial[Math.abs(d)] * range[Math.abs(gray[n] - gray[i])];
+                    r += input[n * 4] * weight;
+                    g += input[n * 4 + 1] * weight;
+                    b += input[n * 4 + 2] * weight;
+                    total += weight;
+                }
+                output[i * 4] = r / total;
+                output[i * 4 + 1] = g / total;
+                output[i * 4 + 2] = b / total;
+            }
+        }
+        copyAlpha(input, output);
+        return output;
+    };
+    return pass(pass(src, true), false);
+}
+
+/**
+ * Median of each channel over a (2 * radius + 1) square, which removes
+ * speckle without rounding off edges. Uses a sliding 256-bin histogram per
+ * row (Huang), so the cost per pixel grows with the radius, not its square.
+ */
+export function applyMedian(src: Uint8ClampedArray, w: number, h: number, radius: number): Uint8ClampedArray {
+    const output = new Uint8ClampedArray(src.length);
+    const histogram = new Uint32Array(256);
+
+    for (let c = 0; c < 3; c++) {
+        for (let y = 0; y < h; y++) {
+            const y0 = Math.max(0, y - radius);
+            const y1 = Math.min(h - 1, y + radius);
+            let median = 0;
+            let below = 0; // Values in the window under `median`
+            const column = (x: number, sign: number) => {
+                for (let ny = y0; ny <= y1; ny++) {
+                    const value = src[(ny * w + x) * 4 + c];
+                    histogram[value] += sign;
+                    if (value < median) below += sign;
+                }
+            };
+
+            histogram.fill(0);
+            for (let x = 0; x <= Math.min(w - 1, radius); x++) column(x, 1);
+            for (let x = 0; x < w; x++) {
+                // Slide the window
+                if (x > radius) column(x - radius - 1, -1);
+                if (x > 0 && x + radius < w) column(x + radius, 1);
+                const count = (Math.min(w - 1, x + radius) - Math.max(0, x - radius) + 1) * (y1 - y0 + 1);
+                const half = Math.floor(count / 2);
+                while (below > half) below -= histogram[--median];
+                while (below + histogram[median] <= half) below += histogram[median++];
+                output[(y * w + x) * 4 + c] = median;
+            }
+        }
+    }
+    copyAlpha(src, output);
+    return output;
+}
+
+/**
+ * Guided filter (He et al.) with each channel as its own guide: a local
+ * linear fit that follows edges stronger than about `edgeThreshold` gray
+ * levels and flattens the rest. Built from box means, so its cost does not
+ * depend on the radius.
+ */
+export function applyGuided(src: Uint8ClampedArray, w: number, h: number, radius: number, edgeThreshold: number): Uint8ClampedArray {
+    const output = new Uint8ClampedArray(src.length);
+    const epsilon = edgeThreshold * edgeThreshold;
+    for (let c = 0; c < 3; c++) {
+        const p = channel(src, c);
+        const squares = p.map((v) => v * v);
+        const mean = boxMean(p, w, h, radius);
+        const meanSquares = boxMean(squares, w, h, radius);
+        const a = new Float32Array(p.length);
+        const b = new Float32Array(p.length);
+        for (let i = 0; i < p.length; i++) {
+            const variance = meanSquares[i] - mean[i] * mean[i];
+            a[i] = variance / (variance + epsilon);
+            b[i] = mean[i] - a[i] * mean[i];
+        }
+        const meanA = boxMean(a, w, h, radius);
+        const meanB = boxMean(b, w, h, radius);
+        for (let i = 0; i < p.length; i++) output[i * 4 + c] = meanA[i] * p[i] + meanB[i];
+    }
+    copyAlpha(src, output);
+    return output;
+}
+
+// Mean over a (2 * radius + 1) square, shrunk at the edges: a running sum
+// along the rows, then along the columns
+function boxMean(values: Float32Array, w: number, h: number, radius: number): Float32Array {
+    const rows = new Float32Array(values.length);
+    for (let y = 0; y < h; y++) {
+        let sum = 0;
+        for (let x = 0; x <= Math.min(w - 1, radius); x++) sum += values[y * w + x];
+        for (let x = 0; x < w; x++) {
+            if (x > 0) {
+                if (x + radius < w) sum += values[y * w + x + radius];
+                if (x - radius - 1 >= 0) sum -= values[y * w + x - radius - 1];
+            }
+            rows[y * w + x] = sum / (Math.min(w - 1, x + radius) - Math.max(0, x - radius) + 1);
+        }
+    }
+    const out = new Float32Array(values.length);
+    for (let x = 0; x < w; x++) {
+        let sum = 0;
+        for (let y = 0; y <= Math.min(h - 1, radius); y++) sum += rows[y * w + x];
+        for (let y = 0; y < h; y++) {
+            if (y > 0) {
+                if (y + radius < h) sum += rows[(y + radius) * w + x];
+                if (y - radius - 1 >= 0) sum -= rows[(y - radius - 1) * w + x];
+            }
+            out[y * w + x] = sum / (Math.min(h - 1, y + radius) - Math.max(0, y - radius) + 1);
+        }
+    }
+    return out;
+}
+
+function channel(src: Uint8ClampedArray, c: number): Float32Array {
+    const values = new Float32Array(src.length / 4);
+    for (let i = 0; i < values.length; i++) values[i] = src[i * 4 + c];
+    return values;
+}
+
+function lumaChannel(src: Uint8ClampedArray): Float32Array {
+    const values = new Float32Array(src.length / 4);
+    for (let i = 0; i < values.length; i++) values[i] = luminance(src[i * 4], src[i * 4 + 1], src[i * 4 + 2]);
+    return values;
+}
+
+// Uint8ClampedArray clamps to 0-255 on assignment
+function addBrightness(data: Uint8ClampedArray, i: number, delta: number) {
+    data[i] += delta;
+    data[i + 1] += delta;
+    data[i + 2] += delta;
+}
+
+function copyAlpha(src: Uint8ClampedArray, output: Uint8ClampedArray) {
+    for (let i = 3; i < src.length; i += 4) output[i] = src[i];
+}
+
@@ -0,0 +1,83 @@
+import type { ProcessingOptions } from './types';
+import { DEFAULT_OPTIONS } from './types';
+import { HOLE, borderPosition, luminance } from './heightmap';
+import { buildOutlineField } from './outline';
+import { hexToRgb, planFilamentStack } from './colorStack';
+import { activeMaterial } from './materials';
+import { surfaceThicknessMm } from './mesh';
+import { captionStripRows } from './text';
+
+export interface BacklitComparison {
+    difference: Uint8ClampedArray; // RGBA: red where the print comes out brighter than the source, blue where darker
+    rmse: number; // Root mean square brightness error over the image, 0-255
+}
+
+/**
+ * Predicted look of the print on a light box: RGBA, holes transparent. Light
+ * through the full thickness at each pixel, base and border included, falls
+ * off as exp(-mu x) with the attenuation of the thickness mapping, tinted by
+ * the material's colour. The exposure is set so the thinnest image pixels
+ * (`baseMm + minHeight`) come out white. Colour mode shows the predicted
+ * colour of each level instead.
+ */
+export function renderBacklit(depthData: Float32Array, options: ProcessingOptions): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(depthData.length * 4);
+    const mu = (options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!).attenuationPerMm;
+    const thinnestMm = options.baseMm + options.minHeight;
+    const tint = hexToRgb(activeMaterial(options)?.color ?? '#ffffff');
+    const palette = planFilamentStack(options)?.palette;
+
+    for (let i = 0; i < depthData.length; i++) {
+        const depth = depthData[i];
+        if (depth === HOLE) continue; // Transparent
+
+        if (palette && palette.length > 0) {
+            const level = Math.max(0, Math.min(palette.length - 1, Math.round(depth * (palette.length - 1))));
+            out[i * 4] = palette[level][0];
+            out[i * 4 + 1] = palette[level][1];
+            out[i * 4 + 2] = palette[level][2];
+        } else {
+            const transmitted = Math.min(1, Math.exp(-mu * (surfaceThicknessMm(depth, options) - thinnestMm)));
+            out[i * 4] = tint[0] * transmitted;
+            out[i * 4 + 1] = tint[1] * transmitted;
+            out[i * 4 + 2] = tint[2] * transmitted;
+        }
+        out[i * 4 + 3] = 255;
+    }
+    return out;
+}
+
+/**
+ * Compares a backlit render with the source pixels it was made from, over
+ * the image only: holes, the border band and the caption strip are left out.
+ */
+export function compareBacklit(
+    rendered: Uint8ClampedArray,
+    source: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions
+): BacklitComparison {
+    const difference = new Uint8ClampedArray(width * height * 4);
+    const outline = buildOutlineField(width, height, options);
+    const imageRows = height - captionStripRows(options);
+    let sum = 0;
+    let count = 0;
+    for (let py = 0; py < imageRows; py++) {
+        for (let px = 0; px < width; px++) {
+            const i = (py * width + px) * 4;
+            if (rendered[i + 3] === 0 || borderPosition(px, py, width, height, options, outline) !== null) continue;
+
+            const error = luminance(rendered[i], rendered[i + 1], rendered[i + 2]) - luminance(source[i], source[i + 1], source[i + 2]);
+            sum += error * error;
+            count++;
+
+            // Amplified so small errors still show
+            const strength = Math.min(255, Math.abs(error) * 2);
+            difference[i] = error > 0 ? strength : 0;
+            difference[i + 2] = error < 0 ? strength : 0;
+            difference[i + 3] = 255;
+        }
+    }
+    return { difference, rmse: count > 0 ? Math.sqrt(sum / count) : 0 };
+}
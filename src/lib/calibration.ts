@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+import { DEFAULT_OPTIONS } from './types';
+import type { CalibrationSample, ProcessingOptions } from './types';
+import { luminance } from './heightmap';
+import { buildMesh, exportStl, surfaceThicknessMm } from './mesh';
+import { simplifyMesh } from './simplify';
+import { stampText, textLengthPx } from './text';
+
+// Tile layout in mm: square patches in rows, each over a label strip, with
+// walls at full thickness around and between them
+const PATCH_MM = 12;
+const LABEL_MM = 5;
+const WALL_MM = 2;
+const COLUMNS = 5;
+const PIXEL_MM = 0.2;
+const LABEL_SIZE_MM = 2.6;
+// How far the labels are cut into the strip
+const LABEL_DEPTH_MM = 0.6;
+
+export const DEFAULT_PATCH_COUNT = 10;
+
+export interface CalibrationLayout {
+    columns: number;
+    rows: number;
+    widthMm: number;
+    heightMm: number;
+    // Top-left corner of each patch in mm, from the top-left of the tile
+    patches: { x: number; y: number }[];
+}
+
+/** Total thickness of each patch, base included, evenly spaced from `minHeight` to `maxHeight`. */
+export function calibrationThicknesses(options: ProcessingOptions, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => surfaceThicknessMm(count > 1 ? i / (count - 1) : 0, options));
+}
+
+export function calibrationLayout(count: number): CalibrationLayout {
+    const columns = Math.min(COLUMNS, count);
+    const rows = Math.ceil(count / columns);
+    const patches = Array.from({ length: count }, (_, i) => ({
+        x: WALL_MM + (i % columns) * (PATCH_MM + WALL_MM),
+        y: WALL_MM + Math.floor(i / columns) * (PATCH_MM + LABEL_MM + WALL_MM)
+    }));
+    return {
+        columns,
+        rows,
+        widthMm: WALL_MM + columns * (PATCH_MM + WALL_MM),
+        heightMm: WALL_MM + rows * (PATCH_MM + LABEL_MM + WALL_MM),
+        patches
+    };
+}
+
+/**
+ * Step wedge for measuring a filament: `count` patches at the thicknesses
+ * of `calibrationThicknesses`, each labelled with its thickness in mm, in
+ * printer orientation like the lithophane. Print it with the same filament
+ * and settings, photograph it backlit and read off the brightness of each
+ * patch to build a material profile.
+ */
+export function buildCalibrationTile(options: ProcessingOptions, count = DEFAULT_PATCH_COUNT): THREE.BufferGeometry {
+    const layout = calibrationLayout(count);
+    const thicknesses = calibrationThicknesses(options, count);
+    const w = Math.round(layout.widthMm / PIXEL_MM) + 1;
+    const h = Math.round(layout.heightMm / PIXEL_MM) + 1;
+    const range = options.maxHeight - options.minHeight;
+
+    // Walls and label strips at full thickness, patches at their own
+    const depth = new Float32Array(w * h).fill(1);
+    layout.patches.forEach((patch, i) => {
+        const value = count > 1 ? i / (count - 1) : 0;
+        for (let py = Math.round(patch.y / PIXEL_MM); py <= Math.round((patch.y + PATCH_MM) / PIXEL_MM); py++) {
+            for (let px = Math.round(patch.x / PIXEL_MM); px <= Math.round((patch.x + PATCH_MM) / PIXEL_MM); px++) {
+                depth[py * w + px] = value;
+            }
+        }
+    });
+
+    // Labels, shrunk to fit the patch width
+    const labels = new Uint8Array(w * h);
+    layout.patches.forEach((patch, i) => {
+        const label = thicknesses[i].toFixed(2);
+        let sizePx = LABEL_SIZE_MM / PIXEL_MM;
+        const lengthPx = textLengthPx(label, sizePx, 'regular', 'sans');
+        const fitPx = (PATCH_MM - 1) / PIXEL_MM;
+        if (lengthPx > fitPx) sizePx *= fitPx / lengthPx;
+        const cx = (patch.x + PATCH_MM / 2) / PIXEL_MM;
+        const cy = (patch.y + PATCH_MM + LABEL_MM / 2) / PIXEL_MM;
+        stampText(labels, w, h, label, sizePx, 'regular', 'sans', (u, v) => [cx + u, cy + v]);
+    });
+    const engraved = range > 0 ? Math.max(0, 1 - LABEL_DEPTH_MM / range) : 0;
+    for (let i = 0; i < labels.length; i++) {
+        if (labels[i]) depth[i] = engraved;
+    }
+
+    // A plain flat plate: the lithophane's border, shape and extras do not apply
+    const tileOptions: ProcessingOptions = {
+        ...options,
+        widthMm: layout.widthMm,
+        border: { ...DEFAULT_OPTIONS.border, type: 'none' },
+        shape: { ...DEFAULT_OPTIONS.shape, type: 'flat' },
+        mounting: undefined,
+        text: undefined
+    };
+    // The patches are flat, so merging their triangles (heights kept exactly)
+    // shrinks the file to little more than the labels
+    const built = buildMesh(depth, w, h, tileOptions);
+    const simplified = simplifyMesh(built, 0);
+    built.dispose();
+    return simplified;
+}
+
+export async function generateCalibrationTile(options: ProcessingOptions, count = DEFAULT_PATCH_COUNT): Promise<Blob> {
+    const geometry = buildCalibrationTile(options, count);
+    const stl = exportStl(geometry);
+    geometry.dispose();
+    return new Blob([stl], { type: 'application/octet-stream' });
+}
+
+/**
+ * Mean brightness (0-255) of each patch in a photo of the backlit tile,
+ * cropped to the edges of the tile and taken from the relief side. Only the
+ * middle half of each patch is sampled, so the crop need not be exact and
+ * light bleeding from the walls stays out.
+ */
+export function sampleCalibrationPhoto(data: Uint8ClampedArray, width: number, height: number, count: number): number[] {
+    const layout = calibrationLayout(count);
+    const sx = width / layout.widthMm;
+    const sy = height / layout.heightMm;
+    return layout.patches.map((patch) => {
+        const x0 = Math.floor((patch.x + PATCH_MM / 4) * sx);
+        const x1 = Math.max(x0 + 1, Math.ceil((patch.x + PATCH_MM * 3 / 4) * sx));
+        const y0 = Math.floor((patch.y + PATCH_MM / 4) * sy);
+        const y1 = Math.max(y0 + 1, Math.ceil((patch.y + PATCH_MM * 3 / 4) * sy));
+        let sum = 0;
+        let n = 0;
+        for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+            for (let x = Math.max(0, x0); x < Math.min(width, x1); x++) {
+                const idx = (y * width + x) * 4;
+                sum += luminance(data[idx], data[idx + 1], data[idx + 2]);
+                n++;
+            }
+        }
+        return n > 0 ? sum / n : 0;
+    });
+}
+
+/**
+ * Reads measured samples from CSV ("thickness,brightness" per line, header
+ * and comment lines skipped) or JSON (an array of samples, or a material
+ * profile). Throws if fewer than two samples are found.
+ */
+export function parseCalibrationSamples(text: string): CalibrationSample[] {
+    let samples: CalibrationSample[] = [];
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch {
+            throw new Error('Calibration file is not valid JSON');
+        }
+        const list = Array.isArray(parsed) ? parsed : (parsed as { samples?: unknown }).samples;
+        if (!Array.isArray(list)) throw new Error('Calibration JSON has no samples');
+        samples = list.map((item) => ({ thicknessMm: Number(item?.thicknessMm), brightness: Number(item?.brightness) }));
+    } else {
+        for (const line of trimmed.split(/\r?\n/)) {
+            const fields = line.split(/[,;\t]/).map((field) => Number(field.trim()));
+            if (fields.length >= 2) samples.push({ thicknessMm: fields[0], brightness: fields[1] });
+        }
+    }
+
+    samples = samples.filter((sample) => Number.isFinite(sample.thicknessMm) && Number.isFinite(sample.brightness));
+    if (samples.length < 2) throw new Error('Calibration data needs at least two thickness and brightness pairs');
+    return samples;
+}
@@ -0,0 +1,95 @@
+import type { ProcessingOptions } from './types';
+import { levelDepth } from './transmission';
+
+export type RGB = [number, number, number];
+
+export interface FilamentChange {
+    filamentIndex: number;
+    color: string;
+    level: number; // First quantization level printed with this filament
+    zMm: number; // Absolute Z from the bed where the swap must happen
+}
+
+export interface FilamentStack {
+    levelFilament: number[]; // Filament index printed at each of the layerCount levels
+    palette: RGB[]; // Predicted colour seen from the top at each level
+    changes: FilamentChange[]; // Swaps in print order (excludes the starting filament)
+}
+
+export function hexToRgb(hex: string): RGB {
+    const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+    if (!m) return [255, 255, 255];
+    return [parseInt(m[1], 16), parseInt(m[2], 16), parseInt(m[3], 16)];
+}
+
+/** Absolute Z (mm above the bed) of the top of quantization level `level`. */
+export function levelHeightMm(level: number, options: ProcessingOptions): number {
+    return options.baseMm + options.minHeight + levelDepth(level, options) * (options.maxHeight - options.minHeight);
+}
+
+/**
+ * Assigns the filament stack to the quantization levels and predicts the colour
+ * seen at each level. Levels are shared out evenly in stack order; each slab is
+ * blended over what is below it with opacity `slab / transmissionMm`.
+ * Returns null when colour mode is off.
+ */
+export function planFilamentStack(options: ProcessingOptions): FilamentStack | null {
+    const filaments = options.color?.filaments ?? [];
+    if (!options.color?.enabled || filaments.length === 0) return null;
+
+    const levels = Math.max(1, options.layerCount);
+    const levelFilament: number[] = [];
+    for (let j = 0; j < levels; j++) {
+        levelFilament.push(Math.min(filaments.length - 1, Math.floor(j * filaments.length / levels)));
+    }
+
+    const palette: RGB[] = [];
+    // The base and first level are thick enough to be treated as opaque
+    let current = hexToRgb(filaments[levelFilament[0]].color);
+    palette.push(current);
+    for (let j = 1; j < levels; j++) {
+        const filament = filaments[levelFilament[j]];
+        const slab = levelHeightMm(j, options) - levelHeightMm(j - 1, options);
+        const alpha = Math.min(1, slab / Math.max(0.01, filament.transmissionMm));
+        const c = hexToRgb(filament.color);
+        current = [
+            current[0] * (1 - alpha) + c[0] * alpha,
+            current[1] * (1 - alpha) + c[1] * alpha,
+            current[2] * (1 - alpha) + c[2] * alpha
+        ];
+        palette.push(current);
+    }
+
+    const changes: FilamentChange[] = [];
+    for (let j = 1; j < levels; j++) {
+        if (levelFilament[j] !== levelFilament[j - 1]) {
+            changes.push({
+                filamentIndex: levelFilament[j],
+                color: filaments[levelFilament[j]].color,
+                level: j,
+                zMm: levelHeightMm(j - 1, options)
+            });
+        }
+    }
+
+    return { levelFilament, palette, changes };
+}
+
+/** Index of the palette entry closest to the given colour ("redmean" weighted RGB distance). */
+export function nearestLevel(r: number, g: number, b: number, palette: RGB[]): number {
+    let best = 0;
+    let bestDist = Infinity;
+    for (let j = 0; j < palette.length; j++) {
+        const [pr, pg, pb] = palette[j];
+        const rMean = (r + pr) / 2;
+        const dr = r - pr;
+        const dg = g - pg;
+        const db = b - pb;
+        const dist = (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+        if (dist < bestDist) {
+            bestDist = dist;
+            best = j;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,221 @@
+import type { ProcessingOptions } from './types';
+import { luminance } from './heightmap';
+import { levelPosition } from './thresholds';
+
+// Error diffusion kernels as [dx, dy, weight]; Atkinson passes on only 3/4
+// of the error, which keeps highlights and shadows clean
+const FLOYD_STEINBERG: [number, number, number][] = [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]];
+const ATKINSON: [number, number, number][] = [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]];
+
+const BAYER_SIZE = 8;
+const BLUE_NOISE_SIZE = 64;
+let blueNoise: Float32Array | null = null;
+
+/**
+ * Layer index of every pixel with the configured dithering, or null when it
+ * is off (or there is only one level) and plain rounding applies. Gray is
+ * placed between the `layerCount` levels by the layer `thresholds` (null for
+ * evenly spaced ones, as in `quantizeGray`); the dither works
+ * on square cells of at least `minDotMm`, so no dot is smaller than what the
+ * nozzle can print.
+ */
+export function ditherLevels(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions,
+    thresholds: number[] | null
+): Uint8Array | null {
+    const dither = options.dither;
+    const levels = options.layerCount;
+    if (!dither || dither.mode === 'none' || levels < 2) return null;
+
+    // Average the gray over the cells, in level units (0 to levels - 1)
+    const cell = Math.max(1, Math.round(dither.minDotMm / (options.pixelSize || 0.15)));
+    const cols = Math.ceil(width / cell);
+    const rows = Math.ceil(height / cell);
+    const tone = new Float32Array(cols * rows);
+    const counts = new Uint16Array(cols * rows);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const c = Math.floor(y / cell) * cols + Math.floor(x / cell);
+            tone[c] += luminance(data[i], data[i + 1], data[i + 2]);
+            counts[c]++;
+        }
+    }
+    for (let c = 0; c < tone.length; c++) tone[c] = levelPosition(tone[c] / counts[c], levels, thresholds);
+
+    const strength = Math.max(0, Math.min(1, dither.strength));
+    const cellLevels = dither.mode === 'floydSteinberg' || dither.mode === 'atkinson'
+        ? diffuseError(tone, cols, rows, levels, strength, dither.mode === 'atkinson' ? ATKINSON : FLOYD_STEINBERG)
+        : orderedDither(tone, cols, rows, levels, strength, dither.mode === 'bayer' ? bayerMatrix() : blueNoiseMatrix(), dither.mode === 'bayer' ? BAYER_SIZE : BLUE_NOISE_SIZE);
+
+    const layers = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            layers[y * width + x] = cellLevels[Math.floor(y / cell) * cols + Math.floor(x / cell)];
+        }
+    }
+    return layers;
+}
+
+// Serpentine scan, so the error does not drift in one direction
+function diffuseError(
+    tone: Float32Array,
+    cols: number,
+    rows: number,
+    levels: number,
+    strength: number,
+    kernel: [number, number, number][]
+): Uint8Array {
+    const out = new Uint8Array(cols * rows);
+    for (let y = 0; y < rows; y++) {
+        const reverse = y % 2 === 1;
+        for (let k = 0; k < cols; k++) {
+            const x = reverse ? cols - 1 - k : k;
+            const i = y * cols + x;
+            const level = Math.max(0, Math.min(levels - 1, Math.round(tone[i])));
+            out[i] = level;
+            const error = (tone[i] - level) * strength;
+            for (const [dx, dy, weight] of kernel) {
+                const nx = reverse ? x - dx : x + dx;
+                const ny = y + dy;
+                if (nx >= 0 && nx < cols && ny < rows) tone[ny * cols + nx] += error * weight;
+            }
+        }
+    }
+    return out;
+}
+
+// Threshold matrix values are in 0-1; strength 0 falls back to rounding
+function orderedDither(
+    tone: Float32Array,
+    cols: number,
+    rows: number,
+    levels: number,
+    strength: number,
+    matrix: Float32Array,
+    size: number
+): Uint8Array {
+    const out = new Uint8Array(cols * rows);
+    for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+            const threshold = 0.5 + strength * (matrix[(y % size) * size + (x % size)] - 0.5);
+            const i = y * cols + x;
+            out[i] = Math.max(0, Math.min(levels - 1, Math.floor(tone[i] + threshold)));
+        }
+    }
+    return out;
+}
+
+// Recursive Bayer matrix, ranks centred in 0-1
+function bayerMatrix(): Float32Array {
+    const matrix = new Float32Array(BAYER_SIZE * BAYER_SIZE);
+    for (let y = 0; y < BAYER_SIZE; y++) {
+        for (let x = 0; x < BAYER_SIZE; x++) {
+            // The lowest bits of x and y pick the coarsest split of the ranks
+            let rank = 0;
+            for (let bit = 0, shift = 2 * Math.log2(BAYER_SIZE) - 2; shift >= 0; bit++, shift -= 2) {
+                const bx = (x >> bit) & 1;
+                const by = (y >> bit) & 1;
+                rank |= (by | ((bx ^ by) << 1)) << shift;
+            }
+            matrix[y * BAYER_SIZE + x] = (rank + 0.5) / (BAYER_SIZE * BAYER_SIZE);
+        }
+    }
+    return matrix;
+}
+
+/**
+ * Blue-noise threshold matrix by void-and-cluster (Ulichney): points are
+ * ranked so that every threshold level is spread as evenly as possible,
+ * using a Gaussian energy on the torus so the matrix tiles seamlessly.
+ * Built once, deterministically.
+ */
+function blueNoiseMatrix(): Float32Array {
+    if (blueNoise) return blueNoise;
+    const size = BLUE_NOISE_SIZE;
+    const n = size * size;
+
+    // Energy each point adds at every offset, wrapped around
+    const kernel = new Float32Array(n);
+    const sigma = 1.5;
+    for (let dy = 0; dy < size; dy++) {
+        for (let dx = 0; dx < size; dx++) {
+            const wx = Math.min(dx, size - dx);
+            const wy = Math.min(dy, size - dy);
+            kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma));
+        }
+    }
+    const energy = new Float32Array(n);
+    const pattern = new Uint8Array(n);
+    const toggle = (p: number, on: boolean) => {
+        pattern[p] = on ? 1 : 0;
+        const px = p % size, py = Math.floor(p / size);
+        const sign = on ? 1 : -1;
+        for (let y = 0; y < size; y++) {
+            const row = ((y - py + size) % size) * size;
+            for (let x = 0; x < size; x++) energy[y * size + x] += sign * kernel[row + ((x - px + size) % size)];
+        }
+    };
+    // Tightest cluster among the set points, or largest void among the others
+    const extreme = (set: number, largest: boolean): number => {
+        let best = -1;
+        for (let p = 0; p < n; p++) {
+            if (pattern[p] !== set) continue;
+            if (best < 0 || (largest ? energy[p] > energy[best] : energy[p] < energy[best])) best = p;
+        }
+        return best;
+    };
+
+    // Seed about a tenth of the points from a fixed pseudo-random sequence,
+    // then move clusters into voids until the pattern settles
+    let seed = 0x2545f491;
+    const random = () => {
+        seed ^= seed << 13;
+        seed ^= seed >>> 17;
+        seed ^= seed << 5;
+        return (seed >>> 0) / 0x100000000;
+    };
+    const initial = Math.floor(n / 10);
+    for (let placed = 0; placed < initial;) {
+        const p = Math.floor(random() * n);
+        if (!pattern[p]) {
+            toggle(p, true);
+            placed++;
+        }
+    }
+    for (let i = 0; i < n; i++) {
+        const cluster = extreme(1, true);
+        toggle(cluster, false);
+        const avoid = extreme(0, false);
+        if (avoid === cluster) {
+            toggle(cluster, true);
+            break;
+        }
+        toggle(avoid, true);
+    }
+    const start = pattern.slice();
+    const startEnergy = energy.slice();
+
+    // Rank the seed points by removing the tightest clusters, then fill the
+    // largest voids for the rest
+    const rank = new Int32Array(n);
+    for (let r = initial - 1; r >= 0; r--) {
+        const cluster = extreme(1, true);
+        toggle(cluster, false);
+        rank[cluster] = r;
+    }
+    pattern.set(start);
+    energy.set(startEnergy);
+    for (let r = initial; r < n; r++) {
+        const avoid = extreme(0, false);
+        toggle(avoid, true);
+        rank[avoid] = r;
+    }
+
+    blueNoise = new Float32Array(n);
+    for (let p = 0; p < n; p++) blueNoise[p] = (rank[p] + 0.5) / n;
+    return blueNoise;
+}
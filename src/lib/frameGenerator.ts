@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { DEFAULT_OPTIONS } from './types';
+import type { ProcessingOptions } from './types';
+import { exportStl, printThicknessMm } from './mesh';
+
+export interface FrameParts {
+    bezel: THREE.BufferGeometry; // Front bezel: face plate with the viewing window, and the walls
+    back: THREE.BufferGeometry; // Back cover: plate with the cable notch, and the spacer rim
+}
+
+/**
+ * Two-part light-box frame around a flat print of `w` x `h` pixels, in printer
+ * orientation (Z-up, floor at Z=0, centered in X/Y). Both parts print on their
+ * outside face.
+ *
+ * Assembled, the print lies against the bezel's lip, the back cover's rim
+ * presses on its edge and holds the LED panel `lightGapMm` behind it so the
+ * light spreads evenly, and the cover plate closes the back of the walls.
+ */
+export function buildFrameGeometry(w: number, h: number, options: ProcessingOptions): FrameParts {
+    const frame = options.frame || DEFAULT_OPTIONS.frame!;
+    const printW = options.widthMm;
+    const printH = (h / w) * options.widthMm;
+    const thickness = printThicknessMm(options);
+    const wall = frame.wallMm;
+
+    // Pocket the print sits in, and the outside of the frame
+    const pocketW = printW + 2 * frame.toleranceMm;
+    const pocketH = printH + 2 * frame.toleranceMm;
+    const outerW = pocketW + 2 * wall;
+    const outerH = pocketH + 2 * wall;
+
+    // Window the image shows through: the lip overlaps the edge of the print,
+    // leaving at least a millimetre open
+    const windowInset = Math.min(wall + frame.toleranceMm + frame.lipMm, Math.min(outerW, outerH) / 2 - 0.5);
+
+    // Face plate and walls as one L-shaped section, (inset from the outside, z)
+    const depth = wall + thickness + frame.lightGapMm;
+    const bezel = sweepRectangle(outerW, outerH, [
+        [0, 0], [windowInset, 0], [windowInset, wall], [wall, wall], [wall, depth], [0, depth]
+    ]);
+
+    // The cable leaves through a notch at the bottom of the cover that reaches
+    // past the rim into the light box
+    const notch = frame.cableNotchMm / 2;
+    const notchDepth = wall + frame.toleranceMm + wall + notch;
+    const plate = polygon([
+        [-outerW / 2, -outerH / 2], [-notch, -outerH / 2], [-notch, -outerH / 2 + notchDepth],
+        [notch, -outerH / 2 + notchDepth], [notch, -outerH / 2], [outerW / 2, -outerH / 2],
+        [outerW / 2, outerH / 2], [-outerW / 2, outerH / 2]
+    ]);
+
+    // Spacer rim, the size of the print and open at the notch
+    const a = printW / 2;
+    const b = printH / 2;
+    const rim = polygon([
+        [-notch, -b], [-a, -b], [-a, b], [a, b], [a, -b], [notch, -b],
+        [notch, -b + wall], [a - wall, -b + wall], [a - wall, b - wall], [-a + wall, b - wall],
+        [-a + wall, -b + wall], [-notch, -b + wall]
+    ]);
+
+    const back = mergePrisms([
+        prism(plate, 0, wall),
+        prism(rim, wall, frame.lightGapMm)
+    ]);
+
+    return { bezel, back };
+}
+
+/**
+ * Sweeps a closed section around a `width` x `height` rectangle with mitred
+ * corners. Section points are (inset from the rectangle, z), listed so the
+ * inside of the section is on their left going from the rectangle inwards.
+ */
+function sweepRectangle(width: number, height: number, section: [number, number][]): THREE.BufferGeometry {
+    const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+    const vertices: number[] = [];
+    for (const [inset, z] of section) {
+        for (const [sx, sy] of corners) {
+            vertices.push(sx * (width / 2 - inset), sy * (height / 2 - inset), z);
+        }
+    }
+
+    const n = section.length;
+    const indices: number[] = [];
+    for (let i = 0; i < n; i++) {
+        const next = (i + 1) % n;
+        for (let k = 0; k < 4; k++) {
+            const a = i * 4 + k;
+            const b = i * 4 + (k + 1) % 4;
+            const c = next * 4 + (k + 1) % 4;
+            const d = next * 4 + k;
+            indices.push(a, d, c, a, c, b);
+        }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+}
+
+function polygon(points: [number, number][]): THREE.Shape {
+    return new THREE.Shape(points.map(([x, y]) => new THREE.Vector2(x, y)));
+}
+
+// Straight extrusion of `shape` from z to z + height
+function prism(shape: THREE.Shape, z: number, height: number): THREE.BufferGeometry {
+    const geometry = new THREE.ExtrudeGeometry(shape, { depth: height, bevelEnabled: false });
+    geometry.translate(0, 0, z);
+    return geometry;
+}
+
+// The prisms of a part touch face to face; slicers print them as one body
+function mergePrisms(prisms: THREE.BufferGeometry[]): THREE.BufferGeometry {
+    const positions: number[] = [];
+    for (const geometry of prisms) {
+        positions.push(...(geometry.getAttribute('position').array as Float32Array));
+        geometry.dispose();
+    }
+    const merged = new THREE.BufferGeometry();
+    merged.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    merged.computeVertexNormals();
+    return merged;
+}
+
+export async function generateFrame(w: number, h: number, options: ProcessingOptions): Promise<{ bezel: Blob; back: Blob }> {
+    const parts = buildFrameGeometry(w, h, options);
+    const toBlob = (geometry: THREE.BufferGeometry) => new Blob([exportStl(geometry)], { type: 'application/octet-stream' });
+    return { bezel: toBlob(parts.bezel), back: toBlob(parts.back) };
+}
@@ -0,0 +1,149 @@
+import type { ProcessingOptions } from './types';
+import { centreColumnExtent } from './outline';
+
+/**
+ * A disc of radius `r` centred on (x, y), or with `length` a capsule whose
+ * centre line runs from (x, y) up to (x, y - length). Image pixels.
+ */
+export interface HangingShape {
+    x: number;
+    y: number;
+    r: number;
+    length: number;
+}
+
+export interface HangingFeature {
+    // Through-hole, blind pocket in the back, or loop outside the print
+    // (its shapes are the outer disc, then the hole)
+    role: 'hole' | 'pocket' | 'loop';
+    shapes: HangingShape[];
+    depthMm: number; // Pockets only
+}
+
+export interface HangingMap {
+    holes: Uint8Array; // 1 where a through-hole is cut
+    pocketMm: Float32Array; // Depth of the pocket in the back, 0 elsewhere
+    boss: Uint8Array; // Pockets grown by POCKET_WALL_MM, kept at full height around them
+}
+
+// Solid material left around the side of a pocket
+const POCKET_WALL_MM = 1.5;
+// Gap between the loop's hole and the top edge of the print
+const LOOP_CLEARANCE_MM = 0.5;
+
+/**
+ * Every hanging feature enabled in `options.mounting`, in image pixels.
+ * Centred features are measured from the top of the print along the centre
+ * column, corner ones from the image corners. The loop is only offered for
+ * flat prints; its shapes lie above the image (negative y). `inside` is the
+ * mask from `buildOutlineMask` for the same size and options.
+ */
+export function hangingFeatures(width: number, height: number, options: ProcessingOptions, inside: Uint8Array | null): HangingFeature[] {
+    const mounting = options.mounting;
+    if (!mounting) return [];
+
+    const pixelSizeMm = options.pixelSize || 0.15;
+    const px = (mm: number) => mm / pixelSizeMm;
+    const cx = width / 2;
+    const { top } = centreColumnExtent(inside, width, height);
+    const disc = (x: number, y: number, diameterMm: number): HangingShape => ({ x, y, r: px(diameterMm) / 2, length: 0 });
+    const features: HangingFeature[] = [];
+
+    if (mounting.enabled) {
+        features.push({ role: 'hole', shapes: [disc(cx, top + px(mounting.offsetMm), mounting.diameterMm)], depthMm: 0 });
+    }
+
+    const corners = mounting.cornerHoles;
+    if (corners?.enabled) {
+        const inset = px(corners.insetMm);
+        features.push({
+            role: 'hole',
+            shapes: [disc(inset, inset, corners.diameterMm), disc(width - 1 - inset, inset, corners.diameterMm)],
+            depthMm: 0
+        });
+    }
+
+    const keyhole = mounting.keyhole;
+    if (keyhole?.enabled) {
+        // The screw head enters the round end, then the slot slides down over the shank
+        const y = top + px(keyhole.offsetMm);
+        features.push({
+            role: 'pocket',
+            shapes: [
+                disc(cx, y, keyhole.headDiameterMm),
+                { x: cx, y, r: px(keyhole.slotWidthMm) / 2, length: px(keyhole.slotLengthMm) }
+            ],
+            depthMm: keyhole.depthMm
+        });
+    }
+
+    const magnets = mounting.magnets;
+    if (magnets?.enabled) {
+        const inset = px(magnets.insetMm);
+        const rows = magnets.count === 2 ? [inset] : [inset, height - 1 - inset];
+        features.push({
+            role: 'pocket',
+            shapes: rows.flatMap((y) => [disc(inset, y, magnets.diameterMm), disc(width - 1 - inset, y, magnets.diameterMm)]),
+            depthMm: magnets.depthMm
+        });
+    }
+
+    const loop = mounting.loop;
+    const shape = options.shape?.type ?? 'flat';
+    if (loop?.enabled && loop.holeDiameterMm < loop.outerDiameterMm && (shape === 'flat' || shape === 'circle' || shape === 'outline')) {
+        // The hole sits just clear of the edge; the rest of the ring overlaps the print
+        const y = top - px(loop.holeDiameterMm / 2 + LOOP_CLEARANCE_MM);
+        features.push({ role: 'loop', shapes: [disc(cx, y, loop.outerDiameterMm), disc(cx, y, loop.holeDiameterMm)], depthMm: 0 });
+    }
+
+    return features;
+}
+
+/**
+ * Rasterizes the holes and pockets among `features` at the image resolution.
+ * Returns null when there are none.
+ */
+export function buildHangingMap(width: number, height: number, features: HangingFeature[], options: ProcessingOptions): HangingMap | null {
+    const cut = features.filter((feature) => feature.role !== 'loop');
+    if (cut.length === 0) return null;
+
+    const wallPx = POCKET_WALL_MM / (options.pixelSize || 0.15);
+    const holes = new Uint8Array(width * height);
+    const pocketMm = new Float32Array(width * height);
+    const boss = new Uint8Array(width * height);
+
+    for (const feature of cut) {
+        for (const shape of feature.shapes) {
+            const grow = feature.role === 'pocket' ? wallPx : 0;
+            const reach = shape.r + grow;
+            const x0 = Math.max(0, Math.ceil(shape.x - reach)), x1 = Math.min(width - 1, Math.floor(shape.x + reach));
+            const y0 = Math.max(0, Math.ceil(shape.y - shape.length - reach)), y1 = Math.min(height - 1, Math.floor(shape.y + reach));
+            for (let py = y0; py <= y1; py++) {
+                // Distance to the shape's centre line
+                const dy = py > shape.y ? py - shape.y : Math.max(0, shape.y - shape.length - py);
+                for (let px = x0; px <= x1; px++) {
+                    const d = Math.hypot(px - shape.x, dy);
+                    const i = py * width + px;
+                    if (feature.role === 'hole') {
+                        if (d < shape.r) holes[i] = 1;
+                        continue;
+                    }
+                    if (d < reach) boss[i] = 1;
+                    if (d < shape.r) pocketMm[i] = Math.max(pocketMm[i], feature.depthMm);
+                }
+            }
+        }
+    }
+
+    return { holes, pocketMm, boss };
+}
+
+/** SVG path data outlining a feature in image pixels, for the 2D preview. */
+export function hangingFeaturePath(feature: HangingFeature): string {
+    return feature.shapes.map(({ x, y, r, length }) => {
+        if (length > 0) {
+            return `M${x - r} ${y} V${y - length} A${r} ${r} 0 0 1 ${x + r} ${y - length} V${y} A${r} ${r} 0 0 1 ${x - r} ${y} Z`;
+        }
+        return `M${x - r} ${y} A${r} ${r} 0 1 0 ${x + r} ${y} A${r} ${r} 0 1 0 ${x - r} ${y} Z`;
+    }).join(' ');
+}
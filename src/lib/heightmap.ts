@@ -0,0 +1,345 @@
+import type { ProcessingOptions } from './types';
+import { nearestLevel, planFilamentStack } from './colorStack';
+import type { RGB } from './colorStack';
+import { buildOutlineField } from './outline';
+import type { OutlineField } from './outline';
+import { buildTextLayer, captionStripRows, textReliefDepth } from './text';
+import { buildHangingMap, hangingFeatures } from './hanging';
+import { levelDepth, toneToDepth } from './transmission';
+import { ditherLevels } from './dither';
+import { evenThresholds, grayHistogram, layerThresholds, thresholdLayer } from './thresholds';
+
+// Depth value marking a pixel that is cut away (hole, background, hidden layer)
+export const HOLE = -1;
+
+export function luminance(r: number, g: number, b: number): number {
+    return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+/**
+ * Snaps a 0-255 gray value to the nearest of `levels` evenly spaced buckets.
+ * Returns the bucket index and its normalized 0-1 value.
+ */
+export function quantizeGray(gray: number, levels: number): { layerIdx: number; value: number } {
+    // Normalize to 0-1
+    let value = gray / 255;
+    let layerIdx = 0;
+
+    if (levels > 1) {
+        // Find nearest bucket
+        const step = 1 / (levels - 1);
+        layerIdx = Math.round(value / step);
+        value = layerIdx * step;
+    }
+    return { layerIdx, value };
+}
+
+/**
+ * True when the pixel lies outside the outline of the print (the `circle`
+ * shape, a custom outline, rounded corners or the `oval` border cut).
+ * `outline` is the field from `buildOutlineField` for the same size and options.
+ */
+export function isOutsideShape(px: number, py: number, width: number, outline: OutlineField | null): boolean {
+    return outline !== null && !outline.inside[py * width + px];
+}
+
+/**
+ * Position of the pixel across the border band: 0 at the outer edge, 1 at the
+ * inner edge where the image starts. Returns null outside the band.
+ * `outline` is the field from `buildOutlineField` for the same size and options.
+ */
+export function borderPosition(px: number, py: number, width: number, height: number, options: ProcessingOptions, outline: OutlineField | null): number | null {
+    if (!options.border || options.border.type === 'none') return null;
+
+    const pixelSizeMm = options.pixelSize || 0.15;
+    const bandPx = options.border.widthMm / pixelSizeMm;
+
+    if (outline) {
+        // Measured on the outline's true distance field, so every profile is
+        // exactly widthMm wide along straight edges, curves and corners alike
+        const d = outline.distancePx[py * width + px];
+        return d < bandPx ? Math.max(0, d) / bandPx : null;
+    }
+
+    if (options.shape?.type === 'cylinder') {
+        // The seam is welded shut, so only the top and bottom edges are free:
+        // the border becomes a rim around each of them
+        const minDist = Math.min(py, height - 1 - py);
+        return minDist < bandPx ? minDist / bandPx : null;
+    }
+
+    if (options.shape?.type === 'sphere') {
+        // The only free edge of a sphere is the rim of its LED opening
+        if (!options.shape.openingMm) return null;
+        const dist = height - 1 - py;
+        return dist < bandPx ? dist / bandPx : null;
+    }
+
+    return null;
+}
+
+/**
+ * Height of the border profile in mm at band position `t`
+ * (0 = outer edge, 1 = inner edge).
+ */
+export function borderProfileMm(t: number, options: ProcessingOptions): number {
+    const bDepthMm = options.border.depthMm;
+
+    switch (options.border.type) {
+        case 'flat':
+            return bDepthMm;
+        case 'oval': // Oval uses the rounded profile
+        case 'rounded':
+            // Quarter Pipe: High at edge (t=0), Low at image (t=1).
+            return Math.cos(t * Math.PI / 2) * bDepthMm;
+        case 'chamfer':
+            // Linear ramp. High at edge (0), Low at image (1)
+            return (1 - t) * bDepthMm;
+        case 'frame':
+            // Decorative Profile
+            // High at edge, dip, bead, chamfer.
+            if (t < 0.2) {
+                // Outer Lip (Flat High)
+                return bDepthMm;
+            } else if (t < 0.4) {
+                // Dip (Grove)
+                const t2 = (t - 0.2) / 0.2;
+                return bDepthMm * (0.8 - (Math.sin(t2 * Math.PI) * 0.2));
+            } else if (t < 0.8) {
+                // Bead (Round bump)
+                const t3 = (t - 0.4) / 0.4;
+                return bDepthMm * (0.6 + (Math.sin(t3 * Math.PI) * 0.4));
+            } else {
+                // Inner Chamfer (Slope down to image)
+                const t4 = (t - 0.8) / 0.2;
+                return bDepthMm * 0.6 * (1 - t4);
+            }
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Layer index of every pixel: the nearest stack colour in colour mode, else
+ * the gray value split by the layer thresholds, dithered if enabled.
+ */
+export function assignLayers(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions): Uint8Array {
+    const levels = options.layerCount;
+    const layers = new Uint8Array(width * height);
+    const stack = planFilamentStack(options);
+    if (stack) {
+        // Colour mode: the level whose predicted stack colour is closest
+        for (let i = 0; i < layers.length; i++) layers[i] = nearestLevel(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], stack.palette);
+        return layers;
+    }
+
+    const thresholds = layerThresholds(grayHistogram(data), options);
+    const dithered = ditherLevels(data, width, height, options, thresholds);
+    if (dithered) return dithered;
+    for (let i = 0; i < layers.length; i++) {
+        const gray = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+        layers[i] = thresholds ? thresholdLayer(gray, thresholds) : quantizeGray(gray, levels).layerIdx;
+    }
+    return layers;
+}
+
+export interface LayerStatistics {
+    histogram: number[]; // Pixels per gray value 0-255, after the image adjustments
+    thresholds: number[]; // Gray boundaries between the layers in use; empty in colour mode
+    layerPixels: number[]; // Pixels assigned to each layer, whether visible or not
+}
+
+/** Histogram, boundaries and fill of the layers for adjusted RGBA pixels. */
+export function layerStatistics(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions): LayerStatistics {
+    const levels = Math.max(1, options.layerCount);
+    const histogram = grayHistogram(data);
+    const layerPixels = new Array(levels).fill(0);
+    for (const layer of assignLayers(data, width, height, options)) layerPixels[layer]++;
+    return {
+        histogram,
+        thresholds: planFilamentStack(options) ? [] : layerThresholds(histogram, options) ?? evenThresholds(levels),
+        layerPixels
+    };
+}
+
+/**
+ * Converts adjusted RGBA pixels into a normalized depth map (0-1 between
+ * `minHeight` and `maxHeight`, HOLE for removed pixels). Border profiles may
+ * produce values outside 0-1.
+ */
+export function computeDepthMap(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions,
+    onProgress?: (progress: number) => void
+): Float32Array {
+    const depthData = new Float32Array(width * height);
+    const levels = options.layerCount;
+    const stack = planFilamentStack(options);
+    // Layers come from the image alone; the caption strip below it is plate
+    const imageRows = height - captionStripRows(options);
+    const layers = assignLayers(data.subarray(0, width * imageRows * 4), width, imageRows, options);
+    const outline = buildOutlineField(width, height, options);
+    // Back text shapes the bottom of the mesh instead (see buildMesh)
+    const text = options.text?.placement !== 'back' ? buildTextLayer(width, height, options, outline?.inside ?? null) : null;
+    const textOnBorder = options.text?.placement === 'border';
+    const hanging = buildHangingMap(width, height, hangingFeatures(width, height, options, outline?.inside ?? null), options);
+
+    for (let i = 0; i < depthData.length; i++) {
+        if (onProgress && (i & 0x3fff) === 0) onProgress(i / depthData.length);
+
+        const gray = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+
+        // Background Removal
+        // If enabled and pixel is brighter than threshold (assuming white background)
+        const inStrip = i >= layers.length;
+        const isBackground = !inStrip && !!options.backgroundRemoval && gray > (options.backgroundThreshold ?? 250);
+
+        const layerIdx = inStrip ? 0 : layers[i];
+        // A single level keeps the continuous tone
+        const value = levels > 1 ? layerIdx / (levels - 1) : stack ? 0 : gray / 255;
+
+        // Apply Layer Visibility Mask
+        let isVisible = !isBackground;
+        if (isVisible && !inStrip && options.layerVisibility && options.layerVisibility.length === levels) {
+            // Be careful with index bounds
+            if (layerIdx >= 0 && layerIdx < levels) {
+                isVisible = options.layerVisibility[layerIdx];
+            }
+        }
+
+        // The filament stack fixes which level shows which colour, so no invert
+        // there. Levels take their depth from levelDepth, so the mesh agrees
+        // with the layer schedule; continuous tones go through the same curve.
+        let depth: number;
+        if (stack) {
+            depth = value;
+        } else if (levels > 1) {
+            depth = levelDepth(options.invert ? levels - 1 - layerIdx : layerIdx, options);
+        } else {
+            depth = toneToDepth(options.invert ? 1.0 - value : value, options);
+        }
+
+        const px = i % width;
+        const py = Math.floor(i / width);
+
+        if (isOutsideShape(px, py, width, outline) || hanging?.holes[i]) {
+            depth = HOLE;
+        }
+
+        if (depth !== HOLE) {
+            const t = borderPosition(px, py, width, height, options, outline);
+            if (t !== null) {
+                // Border is solid: convert its mm height to 0-1 depth
+                const range = options.maxHeight - options.minHeight;
+                depth = (borderProfileMm(t, options) - options.minHeight) / range;
+            } else if (text?.plate?.[i]) {
+                // Caption strip: a solid plate at full height for the text to sit on
+                depth = 1;
+            }
+            if (text?.coverage[i] && (t !== null) === textOnBorder) {
+                depth = textReliefDepth(depth, options);
+            }
+            if (hanging?.boss[i]) {
+                // Pockets in the back get a solid floor of full height
+                depth = Math.max(depth, 1);
+            }
+        }
+
+        if (!isVisible) {
+            depth = HOLE; // Sentinel for "removed"
+        }
+
+        depthData[i] = depth;
+    }
+
+    onProgress?.(1);
+    return depthData;
+}
+
+/**
+ * Grayscale RGBA visualization of a depth map; holes are transparent.
+ * With a colour-mode palette each pixel shows the predicted colour of its level.
+ */
+export function renderDepthPreview(depthData: Float32Array, palette?: RGB[]): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(depthData.length * 4);
+    for (let i = 0; i < depthData.length; i++) {
+        const depth = depthData[i];
+        if (depth === HOLE) continue; // Transparent
+
+        if (palette && palette.length > 0) {
+            const level = Math.max(0, Math.min(palette.length - 1, Math.round(depth * (palette.length - 1))));
+            out[i * 4] = palette[level][0];
+            out[i * 4 + 1] = palette[level][1];
+            out[i * 4 + 2] = palette[level][2];
+            out[i * 4 + 3] = 255;
+            continue;
+        }
+
+        // Visualization needs to handle values > 1 or < 0 if the border is huge
+        const displayGray = Math.max(0, Math.min(255, Math.floor(depth * 255)));
+        out[i * 4] = displayGray;
+        out[i * 4 + 1] = displayGray;
+        out[i * 4 + 2] = displayGray;
+        out[i * 4 + 3] = 255;
+    }
+    return out;
+}
+
+/**
+ * Splits a depth map into the image body and the border body (null without a
+ * border). The border body also keeps the ring of image pixels touching the
+ * band, so the two solids share a seam instead of leaving a one-cell gap.
+ */
+export function splitBorderRegions(
+    depthData: Float32Array,
+    width: number,
+    height: number,
+    options: ProcessingOptions
+): { image: Float32Array; border: Float32Array | null } {
+    if (!options.border || options.border.type === 'none') {
+        return { image: depthData, border: null };
+    }
+
+    const outline = buildOutlineField(width, height, options);
+    const inBorder = new Uint8Array(depthData.length);
+    for (let i = 0; i < depthData.length; i++) {
+        if (depthData[i] !== HOLE && borderPosition(i % width, Math.floor(i / width), width, height, options, outline) !== null) {
+            inBorder[i] = 1;
+        }
+    }
+
+    const image = new Float32Array(depthData.length).fill(HOLE);
+    const border = new Float32Array(depthData.length).fill(HOLE);
+    const wrapX = options.shape?.type === 'cylinder' || options.shape?.type === 'sphere';
+    let hasBorder = false;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (depthData[i] === HOLE) continue;
+
+            if (inBorder[i]) {
+                border[i] = depthData[i];
+                hasBorder = true;
+                continue;
+            }
+
+            image[i] = depthData[i];
+            // Seam ring: image pixels with a border pixel among their 8 neighbours
+            for (let dy = -1; dy <= 1 && border[i] === HOLE; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = wrapX ? (x + dx + width) % width : x + dx;
+                    const ny = y + dy;
+                    if (nx >= 0 && nx < width && ny >= 0 && ny < height && inBorder[ny * width + nx]) {
+                        border[i] = depthData[i];
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    return { image, border: hasBorder ? border : null };
+}
@@ -0,0 +1,209 @@
+import type { ProcessingOptions } from './types';
+import { HOLE } from './heightmap';
+import { surfaceThicknessMm } from './mesh';
+import { levelHeightMm, planFilamentStack } from './colorStack';
+
+export interface HeightSummary {
+    levelPixels: number[]; // Pixels whose top sits on each quantization level (0 = lowest)
+    otherPixels: number; // Pixels at other heights, i.e. border profiles
+    topZ: number; // Highest point of the mesh in mm above the bed
+}
+
+export interface PrinterLayers {
+    layerHeightMm: number;
+    firstLayerMm: number;
+}
+
+export type PauseCommand = 'M600' | 'M0' | 'PAUSE';
+export type SlicerFlavor = 'prusa' | 'cura' | 'gcode';
+
+export interface ScheduleEntry {
+    level: number; // 0 = lowest
+    topZ: number; // Exact top of the level in the mesh
+    snappedZ: number; // Top of the last printer layer that still holds this level
+    layerIndex: number; // 0-based printer layer whose top is snappedZ
+    pixels: number;
+    filamentIndex?: number; // Colour mode only
+}
+
+export interface SwapPoint {
+    afterLevel: number;
+    zMm: number; // Snapped Z at which the pause happens (top of the finished layer)
+    nextLayerIndex: number; // 0-based printer layer printed with the new filament
+    nextLayerZ: number;
+    filamentIndex?: number;
+    color?: string;
+}
+
+export interface LayerSchedule {
+    entries: ScheduleEntry[];
+    swaps: SwapPoint[];
+    borderTop: { zMm: number; snappedZ: number } | null;
+    topZ: number;
+    warnings: string[];
+}
+
+const Z_EPSILON = 1e-4;
+
+/**
+ * Counts how many pixels of the final depth map end up on each level, using the
+ * same thickness rule as the mesh builder, so hidden layers, shape masks and
+ * mounting holes are accounted for.
+ */
+export function summarizeHeights(depthData: Float32Array, options: ProcessingOptions): HeightSummary {
+    const levels = Math.max(1, options.layerCount);
+    const levelZ = Array.from({ length: levels }, (_, j) => levelHeightMm(j, options));
+    const levelPixels = new Array(levels).fill(0);
+    let otherPixels = 0;
+    let topZ = 0;
+
+    for (let i = 0; i < depthData.length; i++) {
+        if (depthData[i] === HOLE) continue;
+        const z = surfaceThicknessMm(depthData[i], options);
+        topZ = Math.max(topZ, z);
+
+        // Levels need not be evenly spaced (transmission mapping)
+        let level = 0;
+        for (let j = 1; j < levels; j++) {
+            if (Math.abs(levelZ[j] - z) < Math.abs(levelZ[level] - z)) level = j;
+        }
+        if (Math.abs(levelZ[level] - z) < Z_EPSILON) {
+            levelPixels[level]++;
+        } else {
+            otherPixels++;
+        }
+    }
+
+    return { levelPixels, otherPixels, topZ };
+}
+
+/** Snaps an exact Z to the top of the printer layer that slicing assigns it to. */
+function snapToLayer(z: number, printer: PrinterLayers): { layerIndex: number; snappedZ: number } {
+    if (z <= printer.firstLayerMm) return { layerIndex: 0, snappedZ: printer.firstLayerMm };
+    // Slicers sample each layer at mid-height, so a top at Z fills the layer
+    // whose top is nearest to Z
+    const layerIndex = Math.max(0, Math.round((z - printer.firstLayerMm) / printer.layerHeightMm + Z_EPSILON));
+    return { layerIndex, snappedZ: printer.firstLayerMm + layerIndex * printer.layerHeightMm };
+}
+
+/**
+ * Lists the absolute Z of every level, snapped to printer layers, and where to
+ * pause: at each filament change in colour mode, otherwise at every level
+ * boundary that still has material above it.
+ */
+export function buildLayerSchedule(options: ProcessingOptions, summary: HeightSummary, printer: PrinterLayers): LayerSchedule {
+    const levels = Math.max(1, options.layerCount);
+    const stack = planFilamentStack(options);
+    const warnings: string[] = [];
+
+    const shape = options.shape?.type ?? 'flat';
+    if (shape !== 'flat' && shape !== 'circle' && shape !== 'outline') {
+        warnings.push(`Heights are measured for a flat print lying on the bed; the ${shape} shape is printed standing, so they do not apply.`);
+    }
+
+    const entries: ScheduleEntry[] = [];
+    for (let j = 0; j < levels; j++) {
+        const topZ = levelHeightMm(j, options);
+        entries.push({
+            level: j,
+            topZ,
+            ...snapToLayer(topZ, printer),
+            pixels: summary.levelPixels[j] ?? 0,
+            filamentIndex: stack?.levelFilament[j]
+        });
+    }
+
+    for (let j = 1; j < levels; j++) {
+        if (entries[j].layerIndex === entries[j - 1].layerIndex) {
+            warnings.push(`Levels ${j} and ${j + 1} fall on the same printer layer; use a smaller layer height or fewer levels.`);
+        }
+    }
+
+    let borderTop: LayerSchedule['borderTop'] = null;
+    if (options.border && options.border.type !== 'none' && summary.otherPixels > 0) {
+        const zMm = surfaceThicknessMm((options.border.depthMm - options.minHeight) / (options.maxHeight - options.minHeight), options);
+        borderTop = { zMm, snappedZ: snapToLayer(zMm, printer).snappedZ };
+    }
+
+    const boundaries = stack
+        ? stack.changes.map((c) => ({ afterLevel: c.level - 1, filamentIndex: c.filamentIndex, color: c.color }))
+        : entries.slice(0, -1)
+            .filter((e) => entries[e.level + 1].pixels > 0) // Skip pauses in front of empty levels
+            .map((e) => ({ afterLevel: e.level, filamentIndex: undefined, color: undefined }));
+
+    const swaps: SwapPoint[] = [];
+    for (const b of boundaries) {
+        const entry = entries[b.afterLevel];
+        // Nothing prints above this boundary (hidden levels, low border): no pause needed
+        if (summary.topZ <= entry.snappedZ + Z_EPSILON) continue;
+        swaps.push({
+            afterLevel: b.afterLevel,
+            zMm: entry.snappedZ,
+            nextLayerIndex: entry.layerIndex + 1,
+            nextLayerZ: entry.snappedZ + printer.layerHeightMm,
+            filamentIndex: b.filamentIndex,
+            color: b.color
+        });
+    }
+
+    if (borderTop && swaps.some((s) => s.zMm < borderTop!.snappedZ)) {
+        warnings.push(`The border rises to Z ${borderTop.snappedZ.toFixed(2)}mm, so it is printed across the swaps below that height.`);
+    }
+
+    return { entries, swaps, borderTop, topZ: summary.topZ, warnings };
+}
+
+/** Ready-to-paste pause instructions for a slicer's "pause at height" feature. */
+export function pauseSnippet(schedule: LayerSchedule, flavor: SlicerFlavor, command: PauseCommand): string {
+    const label = (s: SwapPoint) => s.filamentIndex !== undefined ? `filament ${s.filamentIndex + 1} (${s.color})` : `level ${s.afterLevel + 2}`;
+
+    switch (flavor) {
+        case 'prusa':
+            // PrusaSlicer / OrcaSlicer / Bambu Studio: Printer Settings > Custom G-code > Before layer change.
+            // layer_num is 0-based and refers to the layer about to be printed.
+            return schedule.swaps.map((s) => `{if layer_num == ${s.nextLayerIndex}}${command}{endif}`).join('\n');
+        case 'cura':
+            // Extensions > Post Processing > Modify G-Code > "Pause at height", one script per line.
+            // Cura counts layers from 1.
+            return schedule.swaps.map((s) =>
+                `Pause at layer no. ${s.nextLayerIndex + 1} (Z ${s.nextLayerZ.toFixed(2)}mm)` +
+                `${command === 'M600' ? ', Use M600' : ''} -> ${label(s)}`
+            ).join('\n');
+        case 'gcode':
+            return schedule.swaps.map((s) =>
+                `; Before layer ${s.nextLayerIndex + 1} (Z ${s.nextLayerZ.toFixed(2)}mm): ${label(s)}\n${command}`
+            ).join('\n');
+    }
+}
+
+/** Plain-text report with the level table and the snippets for every slicer. */
+export function scheduleReport(schedule: LayerSchedule, printer: PrinterLayers, command: PauseCommand): string {
+    const lines: string[] = [
+        'Lithophane layer schedule',
+        `Printer layers: first ${printer.firstLayerMm}mm, then ${printer.layerHeightMm}mm`,
+        `Print top: Z ${schedule.topZ.toFixed(2)}mm`,
+        '',
+        'Level  Exact Z   Snapped Z  Layer  Pixels'
+    ];
+    for (const e of schedule.entries) {
+        lines.push(
+            `${String(e.level + 1).padEnd(7)}${e.topZ.toFixed(3).padEnd(10)}${e.snappedZ.toFixed(2).padEnd(11)}` +
+            `${String(e.layerIndex + 1).padEnd(7)}${e.pixels}` +
+            (e.filamentIndex !== undefined ? `  filament ${e.filamentIndex + 1}` : '')
+        );
+    }
+    if (schedule.borderTop) {
+        lines.push(`Border top: Z ${schedule.borderTop.zMm.toFixed(3)}mm (snapped ${schedule.borderTop.snappedZ.toFixed(2)}mm)`);
+    }
+    if (schedule.warnings.length > 0) {
+        lines.push('', ...schedule.warnings.map((w) => `! ${w}`));
+    }
+
+    lines.push(
+        '', '== PrusaSlicer / OrcaSlicer / Bambu Studio (Before layer change G-code) ==', pauseSnippet(schedule, 'prusa', command),
+        '', '== Cura (Pause at height) ==', pauseSnippet(schedule, 'cura', command),
+        '', '== Raw G-code ==', pauseSnippet(schedule, 'gcode', command),
+        ''
+    );
+    return lines.join('\n');
+}
@@ -0,0 +1,105 @@
+import { DEFAULT_OPTIONS } from './types';
+import type { CalibrationSample, MaterialProfile, ProcessingOptions } from './types';
+
+// Typical values for common lithophane filaments; real spools vary, which is
+// what calibration tiles and user profiles are for
+export const BUILTIN_MATERIALS: MaterialProfile[] = [
+    { name: 'White PLA', color: '#f4f2ec', attenuationPerMm: 1.2, minHeightMm: 0.6, maxHeightMm: 3.0, densityGPerCm3: 1.24 },
+    { name: 'Natural PLA', color: '#ece6d6', attenuationPerMm: 0.6, minHeightMm: 0.8, maxHeightMm: 4.0, densityGPerCm3: 1.24 },
+    { name: 'White PETG', color: '#f6f6f4', attenuationPerMm: 0.9, minHeightMm: 0.8, maxHeightMm: 3.6, densityGPerCm3: 1.27 },
+    { name: 'Translucent PETG', color: '#e4eeee', attenuationPerMm: 0.35, minHeightMm: 1.0, maxHeightMm: 5.0, densityGPerCm3: 1.27 },
+    { name: 'White ABS', color: '#f2f0ea', attenuationPerMm: 1.4, minHeightMm: 0.6, maxHeightMm: 2.8, densityGPerCm3: 1.04 }
+];
+
+/** Built-in profiles, replaced by user-defined ones of the same name, followed by the other user-defined ones. */
+export function materialLibrary(options: ProcessingOptions): MaterialProfile[] {
+    const custom = options.materials || [];
+    const builtin = BUILTIN_MATERIALS.map((material) => custom.find((m) => m.name === material.name) || material);
+    return [...builtin, ...custom.filter((material) => !isBuiltinMaterial(material.name))];
+}
+
+export function isBuiltinMaterial(name: string): boolean {
+    return BUILTIN_MATERIALS.some((material) => material.name === name);
+}
+
+/** The profile of the filament being printed, or null if none is selected. */
+export function activeMaterial(options: ProcessingOptions): MaterialProfile | null {
+    return materialLibrary(options).find((material) => material.name === options.material) || null;
+}
+
+/** Selects `profile` and takes over its thickness range and attenuation. */
+export function applyMaterial(options: ProcessingOptions, profile: MaterialProfile): ProcessingOptions {
+    return {
+        ...options,
+        material: profile.name,
+        minHeight: profile.minHeightMm,
+        maxHeight: profile.maxHeightMm,
+        thicknessMapping: { ...(options.thicknessMapping || DEFAULT_OPTIONS.thicknessMapping!), attenuationPerMm: profile.attenuationPerMm }
+    };
+}
+
+/** Adds `profile` to the user-defined profiles, replacing one of the same name. */
+export function saveMaterial(options: ProcessingOptions, profile: MaterialProfile): ProcessingOptions {
+    const materials = (options.materials || []).filter((material) => material.name !== profile.name);
+    return { ...options, materials: [...materials, profile] };
+}
+
+/** Drops the user-defined profile `name`; a built-in one of that name comes back. */
+export function removeMaterial(options: ProcessingOptions, name: string): ProcessingOptions {
+    return { ...options, materials: (options.materials || []).filter((material) => material.name !== name) };
+}
+
+/** Filament weight in grams of a print with the given volume. */
+export function filamentGrams(volumeMm3: number, material: MaterialProfile): number {
+    return (volumeMm3 / 1000) * material.densityGPerCm3;
+}
+
+export function exportMaterials(materials: MaterialProfile[]): string {
+    return JSON.stringify({ materials }, null, 2);
+}
+
+/**
+ * Reads profiles written by `exportMaterials`, or a bare array or a single
+ * profile. Throws if a profile lacks a name or a usable number.
+ */
+export function parseMaterials(text: string): MaterialProfile[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Material file is not valid JSON');
+    }
+    const list = Array.isArray(parsed)
+        ? parsed
+        : Array.isArray((parsed as { materials?: unknown })?.materials)
+            ? (parsed as { materials: unknown[] }).materials
+            : [parsed];
+
+    return list.map((item, i) => {
+        const entry = (item ?? {}) as Record<string, unknown>;
+        const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+        if (!name) throw new Error(`Material ${i + 1} has no name`);
+        const number = (key: string, min: number): number => {
+            const value = Number(entry[key]);
+            if (!Number.isFinite(value) || value < min) throw new Error(`Material "${name}" has no valid ${key}`);
+            return value;
+        };
+        const color = typeof entry.color === 'string' && /^#[0-9a-f]{6}$/i.test(entry.color) ? entry.color : '#ffffff';
+        const minHeightMm = number('minHeightMm', 0);
+        const maxHeightMm = number('maxHeightMm', minHeightMm);
+        const samples = Array.isArray(entry.samples)
+            ? (entry.samples as Partial<CalibrationSample>[])
+                .map((sample) => ({ thicknessMm: Number(sample?.thicknessMm), brightness: Number(sample?.brightness) }))
+                .filter((sample) => Number.isFinite(sample.thicknessMm) && Number.isFinite(sample.brightness))
+            : undefined;
+        return {
+            name,
+            color,
+            attenuationPerMm: number('attenuationPerMm', 0),
+            minHeightMm,
+            maxHeightMm,
+            densityGPerCm3: number('densityGPerCm3', 0),
+            ...(samples && samples.length > 0 ? { samples } : {})
+        };
+    });
+}
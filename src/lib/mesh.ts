@@ -0,0 +1,614 @@
+import type { ProcessingOptions } from './types';
+import * as THREE from 'three';
+import { HOLE } from './heightmap';
+import { buildOutlineMask } from './outline';
+import { buildTextLayer } from './text';
+import { buildHangingMap, hangingFeatures } from './hanging';
+import type { HangingShape } from './hanging';
+
+/**
+ * Total thickness in mm of the solid under a depth value, base included.
+ * Negative depths (holes, or border profiles below `minHeight`) keep only the base.
+ */
+export function surfaceThicknessMm(depth: number, options: ProcessingOptions): number {
+    // Base Layer support
+    let thickness = options.baseMm;
+    if (depth >= 0) {
+        thickness += options.minHeight + (depth * (options.maxHeight - options.minHeight));
+    }
+    return thickness;
+}
+
+/** Thickness in mm at the thickest point of the print: borders and raised text included. */
+export function printThicknessMm(options: ProcessingOptions): number {
+    const border = options.border && options.border.type !== 'none' ? options.border.depthMm : 0;
+    const text = options.text?.enabled && !options.text.engraved ? options.text.depthMm : 0;
+    return options.baseMm + Math.max(options.maxHeight, border) + text;
+}
+
+/**
+ * Builds a closed solid from a depth map: a top surface displaced by depth,
+ * a bottom surface, and walls along every boundary edge of the top surface.
+ * Each vertex also carries a `thickness` attribute: the solid the light
+ * passes through there, for the backlit preview.
+ */
+export function buildMesh(
+    depthData: Float32Array,
+    w: number,
+    h: number,
+    options: ProcessingOptions,
+    onProgress?: (progress: number) => void
+): THREE.BufferGeometry {
+    const widthMm = options.widthMm;
+    const heightMm = (h / w) * widthMm;
+    const cellW = widthMm / (w - 1);
+    const cellH = heightMm / (h - 1);
+
+    // Vertices
+    const shape = options.shape || { type: 'flat', angle: 180 };
+    // Closed shapes join their last column back onto the first
+    const wrapX = shape.type === 'cylinder' || shape.type === 'sphere';
+    const sphere = shape.type === 'sphere' ? sphereLatitudes(h, options) : null;
+
+    // Back text and hanging pockets move the bottom surface. Engraved text
+    // never cuts deeper than the base, raised text grows out of it.
+    const inside = buildOutlineMask(w, h, options);
+    const backText = options.text?.placement === 'back' ? buildTextLayer(w, h, options, inside) : null;
+    const backTextMm = backText ? (options.text!.engraved ? Math.min(options.text!.depthMm, options.baseMm) : -options.text!.depthMm) : 0;
+    const features = hangingFeatures(w, h, options, inside);
+    const hanging = buildHangingMap(w, h, features, options);
+    const ring = lampRingSize(w, h, options);
+    const loop = features.find((feature) => feature.role === 'loop');
+
+    // Two vertices per pixel, plus the sphere's poles, the ring and the loop;
+    // two triangles per cell on top and two below. Walls are reserved once
+    // their number is known.
+    const columns = wrapX ? w : w - 1;
+    const mesh = createMeshData(
+        2 * w * h + (sphere ? 4 : 0) + (ring ? 4 * w : 0) + (loop ? 4 * LOOP_SEGMENTS : 0),
+        12 * columns * (h - 1) + (sphere ? 12 * w : 0)
+    );
+
+    onProgress?.(0);
+    for (let y = 0; y < h; y++) {
+        onProgress?.(0.5 * y / h);
+        for (let x = 0; x < w; x++) {
+            const pixelIdx = (y * w) + x;
+            const depth = depthData[pixelIdx];
+
+            const thickness = surfaceThicknessMm(depth, options);
+            const pocketMm = hanging ? Math.min(hanging.pocketMm[pixelIdx], thickness - MIN_POCKET_FLOOR_MM) : 0;
+            const backMm = pocketMm > 0 ? pocketMm : backText?.coverage[pixelIdx] ? backTextMm : 0;
+
+            // Normalized coordinates (0 to 1)
+            const u = x / (w - 1);
+            const v = y / (h - 1);
+
+            // --- Shape Generation ---
+            let vx = 0, vy = 0, vz = 0; // Surface vertex
+            let bx = 0, by = 0, bz = 0; // Base vertex (thickness 0, or inner radius)
+
+            if (shape.type === 'cylinder') {
+                // Cylindrical Wrap
+                // WidthMm = Circumference of the base cylinder.
+                const baseRadius = widthMm / (2 * Math.PI);
+                const rOuter = baseRadius + thickness;
+                const rInner = baseRadius + backMm; // Flat base is now the inner cylinder wall
+
+                // Column w would land on column 0 again, so each column covers
+                // 1/w of the turn and the faces wrap around to weld the seam.
+                // The angle runs clockwise seen from above so the image reads
+                // the right way round (and faces point out) from outside.
+                const theta = -(x / w) * 2 * Math.PI;
+
+                // Map Y to Y (height)
+                // Centered vertically
+                const yPos = -((y * cellH) - (heightMm / 2));
+
+                vx = rOuter * Math.cos(theta);
+                vz = rOuter * Math.sin(theta);
+                vy = yPos;
+
+                bx = rInner * Math.cos(theta);
+                bz = rInner * Math.sin(theta);
+                by = yPos;
+
+            } else if (shape.type === 'arc') {
+                // Arc Segment
+                // WidthMm = Arc Length
+                // Angle specified in options (e.g. 90, 120, 180)
+                const angleRad = (shape.angle * Math.PI) / 180;
+                // ArcLength = Radius * Angle
+                // Radius = ArcLength / Angle
+                const baseRadius = widthMm / angleRad;
+
+                const rOuter = baseRadius + thickness;
+                const rInner = baseRadius + backMm;
+
+                // Remap U (0..1) to (-Angle/2 .. +Angle/2) to center it
+                const theta = (u - 0.5) * angleRad;
+                // Rotate so the center of the arc faces "Back" (or front)?
+                // Usually lithophanes are viewed from the "flat" side if inverted?
+                // Let's say center is at Z=Radius, facing origin?
+                // Standard math: cos(0)=1 (X axis). sin(0)=0.
+                // Let's rotate by -PI/2 so center is at (0, -R)?? No.
+                // Let's just use standard polar, but adding PI/2 to rotate face to camera?
+                const offset = -Math.PI / 2;
+
+                const yPos = -((y * cellH) - (heightMm / 2));
+
+                vx = rOuter * Math.cos(theta + offset);
+                vz = rOuter * Math.sin(theta + offset);
+                vy = yPos;
+
+                bx = rInner * Math.cos(theta + offset);
+                bz = rInner * Math.sin(theta + offset);
+                by = yPos;
+
+            } else if (shape.type === 'sphere') {
+                // Sphere / Moon Mode
+                // WidthMm = Circumference (Equator)
+                const baseRadius = widthMm / (2 * Math.PI);
+                const rOuter = baseRadius + thickness;
+                const rInner = baseRadius + backMm;
+
+                // U -> Longitude, wrapping round like the cylinder
+                const theta = -(x / w) * 2 * Math.PI;
+                // V -> Latitude, North Pole to South Pole. The rows stop short
+                // of the poles (caps are added below) and of the LED opening.
+                const phi = sphere!.phiNorth + v * (sphere!.phiSouth - sphere!.phiNorth);
+
+                // Spherical conversion
+                // x = r * sin(phi) * cos(theta)
+                // z = r * sin(phi) * sin(theta) // Swapped Y/Z for ThreeJS up-axis?
+                // y = r * cos(phi)
+
+                vx = rOuter * Math.sin(phi) * Math.cos(theta);
+                vz = rOuter * Math.sin(phi) * Math.sin(theta);
+                vy = rOuter * Math.cos(phi);
+
+                bx = rInner * Math.sin(phi) * Math.cos(theta);
+                bz = rInner * Math.sin(phi) * Math.sin(theta);
+                by = rInner * Math.cos(phi);
+
+            } else {
+                // --- FLAT (Default) ---
+                const pX = (x * cellW) - (widthMm / 2);
+                const pY = -((y * cellH) - (heightMm / 2));
+
+                vx = pX; vy = pY; vz = thickness;
+                bx = pX; by = pY; bz = backMm;
+            }
+
+            // Top Vertex
+            addVertex(mesh, vx, vy, vz, thickness - backMm);
+            // Bottom Vertex
+            addVertex(mesh, bx, by, bz, thickness - backMm);
+        }
+    }
+
+    // Indices helper
+    const getIdx = (x: number, y: number, layer: 0 | 1) => {
+        return ((y * w) + x) * 2 + layer;
+    };
+
+    const isValid = (x: number, y: number) => {
+        if (x < 0 || x >= w || y < 0 || y >= h) return false;
+        return depthData[y * w + x] !== HOLE;
+    };
+
+    // Helper for topological edge tracking (to detect boundaries). An edge
+    // u->v is keyed as u * keyBase + v, which stays an exact integer for any
+    // print that fits in memory; only the grid and the poles have edges here.
+    const keyBase = 2 * w * h + 4;
+    const boundaryEdges = new Set<number>();
+    const addEdge = (u: number, v: number) => {
+        // We only track edges for the TOP surface.
+        // If an edge u->v is shared by two triangles (e.g. u->v and v->u),
+        // it is internal.
+        const revKey = v * keyBase + u;
+
+        if (boundaryEdges.has(revKey)) {
+            // Found the mate, so this is an internal edge -> remove it
+            boundaryEdges.delete(revKey);
+        } else {
+            // New candidate for boundary
+            boundaryEdges.add(u * keyBase + v);
+        }
+    };
+
+    // 1. Generate Surface and Base Faces
+    for (let y = 0; y < h - 1; y++) {
+        onProgress?.(0.5 + 0.4 * y / h);
+        for (let x = 0; x < columns; x++) {
+            const xR = (x + 1) % w;
+
+            // Four corners
+            const vTL = isValid(x, y);
+            const vTR = isValid(xR, y);
+            const vBL = isValid(x, y + 1);
+            const vBR = isValid(xR, y + 1);
+
+            // Indices
+            const tTL = getIdx(x, y, 0);
+            const tTR = getIdx(xR, y, 0);
+            const tBL = getIdx(x, y + 1, 0);
+            const tBR = getIdx(xR, y + 1, 0);
+
+            const bTL = getIdx(x, y, 1);
+            const bTR = getIdx(xR, y, 1);
+            const bBL = getIdx(x, y + 1, 1);
+            const bBR = getIdx(xR, y + 1, 1);
+
+            // Triangle 1: TL, BL, TR
+            if (vTL && vBL && vTR) {
+                // Top Surface
+                addTriangle(mesh, tTL, tBL, tTR);
+                addEdge(tTL, tBL);
+                addEdge(tBL, tTR);
+                addEdge(tTR, tTL);
+
+                // Bottom Surface (Clockwise / Inverted)
+                addTriangle(mesh, bTL, bTR, bBL);
+            }
+
+            // Triangle 2: TR, BL, BR
+            if (vTR && vBL && vBR) {
+                // Top
+                addTriangle(mesh, tTR, tBL, tBR);
+                addEdge(tTR, tBL);
+                addEdge(tBL, tBR);
+                addEdge(tBR, tTR);
+
+                // Bottom
+                addTriangle(mesh, bTR, bBR, bBL);
+            }
+        }
+    }
+
+    // Sphere poles: the outermost rows are rings around the pole, closed by a
+    // fan of triangles to a single pole vertex (the south one only when there
+    // is no LED opening; otherwise the rim gets a wall like any other edge).
+    const addPoleCap = (row: number, phi: number, north: boolean) => {
+        let sum = 0;
+        let count = 0;
+        for (let x = 0; x < w; x++) {
+            if (!isValid(x, row)) continue;
+            sum += surfaceThicknessMm(depthData[row * w + x], options);
+            count++;
+        }
+        if (count === 0) return;
+
+        const baseRadius = widthMm / (2 * Math.PI);
+        const pole = addVertex(mesh, 0, (baseRadius + sum / count) * Math.cos(phi), 0, sum / count);
+        addVertex(mesh, 0, baseRadius * Math.cos(phi), 0, sum / count);
+
+        for (let x = 0; x < w; x++) {
+            const xR = (x + 1) % w;
+            if (!isValid(x, row) || !isValid(xR, row)) continue;
+            // The surface walks row 0 right-to-left and the last row left-to-right
+            const a = north ? getIdx(x, row, 0) : getIdx(xR, row, 0);
+            const b = north ? getIdx(xR, row, 0) : getIdx(x, row, 0);
+            addTriangle(mesh, pole, a, b);
+            addEdge(pole, a);
+            addEdge(a, b);
+            addEdge(b, pole);
+            addTriangle(mesh, pole + 1, b + 1, a + 1);
+        }
+    };
+    if (sphere) {
+        addPoleCap(0, 0, true);
+        if (!sphere.open) addPoleCap(h - 1, Math.PI, false);
+    }
+
+    onProgress?.(0.9);
+
+    // 2. Generate Walls from Boundary Edges
+    // Any edge remaining in the map is a boundary edge on the Top Surface.
+    // We must drop a wall from this edge down to the Bottom Surface.
+    reserve(mesh, 0, 6 * boundaryEdges.size + (ring ? 24 * w : 0) + (loop ? 24 * LOOP_SEGMENTS : 0));
+    for (const key of boundaryEdges) {
+        const u = Math.floor(key / keyBase);
+        const v = key - u * keyBase;
+
+        // Top indices are u, v.
+        // Bottom indices are u+1, v+1 (since we pushed Top then Bottom for each pixel).
+        // Verify: getIdx(x,y,0) is even. getIdx(x,y,1) is getIdx(x,y,0)+1.
+        const uBot = u + 1;
+        const vBot = v + 1;
+
+        // Wall Quad: Top Edge (u->v) connects to Bottom Edge (vBot->uBot).
+        // We need to maintain winding order (CCW outside).
+        // The top triangle already walks u->v and the bottom one vBot->uBot,
+        // so the wall must walk both edges the other way round to close the
+        // solid: v->u on top, uBot->vBot on the bottom.
+        // Quad sequence: v, u, uBot, vBot.
+
+        // Triangle 1: v, u, uBot
+        addTriangle(mesh, v, u, uBot);
+        // Triangle 2: v, uBot, vBot
+        addTriangle(mesh, v, uBot, vBot);
+    }
+
+    if (ring) appendRing(mesh, ring, w);
+    if (loop) appendLoop(mesh, loop.shapes, w, h, options);
+
+    const geom = toGeometry(mesh);
+    onProgress?.(1);
+
+    return geom;
+}
+
+/**
+ * Vertex and index storage while building a mesh: typed arrays, sized up
+ * front where the count is known and doubled when they run out.
+ */
+interface MeshData {
+    positions: Float32Array;
+    thickness: Float32Array; // Per vertex, in mm
+    indices: Uint32Array;
+    vertexCount: number;
+    indexCount: number;
+}
+
+function createMeshData(vertexCapacity: number, indexCapacity: number): MeshData {
+    return {
+        positions: new Float32Array(vertexCapacity * 3),
+        thickness: new Float32Array(vertexCapacity),
+        indices: new Uint32Array(indexCapacity),
+        vertexCount: 0,
+        indexCount: 0
+    };
+}
+
+// Makes room for at least this many more vertices and indices
+function reserve(mesh: MeshData, vertices: number, indices: number) {
+    if ((mesh.vertexCount + vertices) * 3 > mesh.positions.length) {
+        const grown = new Float32Array((mesh.vertexCount + vertices) * 3);
+        grown.set(mesh.positions.subarray(0, mesh.vertexCount * 3));
+        mesh.positions = grown;
+        const thickness = new Float32Array(mesh.vertexCount + vertices);
+        thickness.set(mesh.thickness.subarray(0, mesh.vertexCount));
+        mesh.thickness = thickness;
+    }
+    if (mesh.indexCount + indices > mesh.indices.length) {
+        const grown = new Uint32Array(mesh.indexCount + indices);
+        grown.set(mesh.indices.subarray(0, mesh.indexCount));
+        mesh.indices = grown;
+    }
+}
+
+function addVertex(mesh: MeshData, x: number, y: number, z: number, thicknessMm: number): number {
+    if ((mesh.vertexCount + 1) * 3 > mesh.positions.length) reserve(mesh, Math.max(16, mesh.vertexCount), 0);
+    const i = mesh.vertexCount * 3;
+    mesh.positions[i] = x;
+    mesh.positions[i + 1] = y;
+    mesh.positions[i + 2] = z;
+    mesh.thickness[mesh.vertexCount] = thicknessMm;
+    return mesh.vertexCount++;
+}
+
+function addTriangle(mesh: MeshData, a: number, b: number, c: number) {
+    if (mesh.indexCount + 3 > mesh.indices.length) reserve(mesh, 0, Math.max(48, mesh.indexCount));
+    mesh.indices[mesh.indexCount++] = a;
+    mesh.indices[mesh.indexCount++] = b;
+    mesh.indices[mesh.indexCount++] = c;
+}
+
+function toGeometry(mesh: MeshData): THREE.BufferGeometry {
+    // Cells in holes leave part of the index estimate unused
+    const positions = mesh.vertexCount * 3 === mesh.positions.length ? mesh.positions : mesh.positions.slice(0, mesh.vertexCount * 3);
+    const thickness = mesh.vertexCount === mesh.thickness.length ? mesh.thickness : mesh.thickness.slice(0, mesh.vertexCount);
+    const indices = mesh.indexCount === mesh.indices.length ? mesh.indices : mesh.indices.slice(0, mesh.indexCount);
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geom.setAttribute('thickness', new THREE.BufferAttribute(thickness, 1));
+    geom.setIndex(new THREE.BufferAttribute(indices, 1));
+    geom.computeVertexNormals();
+    return geom;
+}
+
+interface RingSize {
+    rInner: number;
+    rOuter: number;
+    yBottom: number;
+    yTop: number;
+}
+
+interface SphereLatitudes {
+    phiNorth: number; // Polar angle of the first row
+    phiSouth: number; // Polar angle of the last row
+    open: boolean; // Whether the last row is the rim of the LED opening
+}
+
+// Thinnest material left in front of a pocket in the back
+const MIN_POCKET_FLOOR_MM = 0.6;
+// Facets around the ornament loop
+const LOOP_SEGMENTS = 64;
+// Largest LED opening, as a fraction of the sphere's inner diameter
+const MAX_OPENING = 0.95;
+const RING_LIP_MM = 3; // Sphere base ring overhang around the opening's rim
+const RING_GAP_MM = 2; // Space left between the sphere and its base ring
+
+function sphereLatitudes(h: number, options: ProcessingOptions): SphereLatitudes {
+    // Keep half a row's spacing to each pole so no row collapses into a point
+    const poleGap = Math.PI / (2 * h);
+    const openingMm = sphereOpeningMm(options);
+    if (openingMm <= 0) return { phiNorth: poleGap, phiSouth: Math.PI - poleGap, open: false };
+    // The opening is measured on the inner surface, the narrowest point
+    const baseRadius = options.widthMm / (2 * Math.PI);
+    return { phiNorth: poleGap, phiSouth: Math.PI - Math.asin(openingMm / 2 / baseRadius), open: true };
+}
+
+/** Diameter (mm) of the sphere's LED opening after clamping to the sphere size. */
+export function sphereOpeningMm(options: ProcessingOptions): number {
+    return Math.max(0, Math.min(options.shape?.openingMm ?? 0, shapeInnerDiameterMm(options) * MAX_OPENING));
+}
+
+// Ring dimensions for lamp shapes, or null when disabled or when there is
+// nothing for it to fit: the cylinder's ring sits inside the bottom of the
+// wall, the sphere's base ring is a separate stand under its LED opening.
+function lampRingSize(w: number, h: number, options: ProcessingOptions): RingSize | null {
+    const ring = options.shape?.ring;
+    if (!ring?.enabled || ring.heightMm <= 0) return null;
+    const baseRadius = options.widthMm / (2 * Math.PI);
+
+    if (options.shape.type === 'cylinder') {
+        const rInner = ring.innerDiameterMm / 2;
+        if (rInner >= baseRadius) return null;
+
+        // Sink the outer edge halfway into the wall so the slicer merges the two
+        const rOuter = baseRadius + surfaceThicknessMm(0, options) / 2;
+        const yBottom = -((h / w) * options.widthMm) / 2;
+        return { rInner, rOuter, yBottom, yTop: yBottom + ring.heightMm };
+    }
+
+    if (options.shape.type === 'sphere') {
+        const sphere = sphereLatitudes(h, options);
+        if (!sphere.open) return null;
+
+        // The opening's rim rests on the ring, with a lip of RING_LIP_MM around it
+        const outerRadius = baseRadius + options.baseMm + options.maxHeight;
+        const rInner = sphereOpeningMm(options) / 2;
+        const rOuter = outerRadius * Math.sin(sphere.phiSouth) + RING_LIP_MM;
+        const yTop = outerRadius * Math.cos(sphere.phiSouth) - RING_GAP_MM;
+        return { rInner, rOuter, yBottom: yTop - ring.heightMm, yTop };
+    }
+
+    return null;
+}
+
+/** Inner diameter (mm) of the cylinder's or sphere's wall, i.e. the largest ring opening. */
+export function shapeInnerDiameterMm(options: ProcessingOptions): number {
+    return options.widthMm / Math.PI;
+}
+
+/**
+ * The ring of a lamp shape on its own, for packaging it as a separate body.
+ * `buildMesh` already includes it.
+ */
+export function buildLampRing(w: number, h: number, options: ProcessingOptions): THREE.BufferGeometry | null {
+    const ring = lampRingSize(w, h, options);
+    if (!ring) return null;
+
+    const mesh = createMeshData(4 * w, 24 * w);
+    appendRing(mesh, ring, w);
+    return toGeometry(mesh);
+}
+
+/**
+ * The ornament loop on its own, for packaging it as a separate body.
+ * `buildMesh` already includes it.
+ */
+export function buildHangingLoop(w: number, h: number, options: ProcessingOptions): THREE.BufferGeometry | null {
+    const loop = hangingFeatures(w, h, options, buildOutlineMask(w, h, options)).find((feature) => feature.role === 'loop');
+    if (!loop) return null;
+
+    const mesh = createMeshData(4 * LOOP_SEGMENTS, 24 * LOOP_SEGMENTS);
+    appendLoop(mesh, loop.shapes, w, h, options);
+    return toGeometry(mesh);
+}
+
+// Flat ring lying on the bed at full print thickness, placed like a flat
+// print's pixels. `shapes` holds the loop's outer disc and its hole.
+function appendLoop(mesh: MeshData, shapes: HangingShape[], w: number, h: number, options: ProcessingOptions) {
+    const [outer, hole] = shapes;
+    const heightMm = (h / w) * options.widthMm;
+    const cellW = options.widthMm / (w - 1);
+    const cellH = heightMm / (h - 1);
+    const x = outer.x * cellW - options.widthMm / 2;
+    const y = -(outer.y * cellH - heightMm / 2);
+    const ring = { rInner: hole.r * cellW, rOuter: outer.r * cellW, yBottom: 0, yTop: surfaceThicknessMm(1, options) };
+    // Turn the ring's axis from Y onto Z; light crosses it through its height
+    appendRing(mesh, ring, LOOP_SEGMENTS, (rx, ry, rz) => [x + rx, y - rz, ry], ring.yTop);
+}
+
+// Closed annulus around the Y axis with rectangular cross-section, wound
+// outward-facing like the lithophane itself. `place` maps each vertex into
+// position and must be a rotation plus offset, so the winding is kept.
+// `thicknessMm` is what light crosses, by default the ring's wall.
+function appendRing(
+    mesh: MeshData,
+    ring: RingSize,
+    segments: number,
+    place: (x: number, y: number, z: number) => number[] = (x, y, z) => [x, y, z],
+    thicknessMm = ring.rOuter - ring.rInner
+) {
+    const first = mesh.vertexCount;
+    const add = (x: number, y: number, z: number) => {
+        const [px, py, pz] = place(x, y, z);
+        addVertex(mesh, px, py, pz, thicknessMm);
+    };
+    // Per segment: inner-bottom, outer-bottom, outer-top, inner-top
+    for (let i = 0; i < segments; i++) {
+        const theta = -(i / segments) * 2 * Math.PI;
+        const c = Math.cos(theta);
+        const s = Math.sin(theta);
+        add(ring.rInner * c, ring.yBottom, ring.rInner * s);
+        add(ring.rOuter * c, ring.yBottom, ring.rOuter * s);
+        add(ring.rOuter * c, ring.yTop, ring.rOuter * s);
+        add(ring.rInner * c, ring.yTop, ring.rInner * s);
+    }
+
+    for (let i = 0; i < segments; i++) {
+        const a = first + i * 4;
+        const b = first + ((i + 1) % segments) * 4;
+        // Outer wall
+        addTriangle(mesh, a + 1, b + 1, a + 2);
+        addTriangle(mesh, b + 1, b + 2, a + 2);
+        // Inner wall
+        addTriangle(mesh, a, a + 3, b);
+        addTriangle(mesh, b, a + 3, b + 3);
+        // Top
+        addTriangle(mesh, a + 3, a + 2, b + 3);
+        addTriangle(mesh, b + 3, a + 2, b + 2);
+        // Bottom
+        addTriangle(mesh, a, b, a + 1);
+        addTriangle(mesh, b, b + 1, a + 1);
+    }
+}
+
+/**
+ * Binary STL, written triangle by triangle straight from the geometry's
+ * position and index buffers into the output (84 bytes of header and count,
+ * then 50 per triangle), with no intermediate mesh or vectors.
+ */
+export function exportStl(geometry: THREE.BufferGeometry): ArrayBuffer {
+    const p = geometry.getAttribute('position').array;
+    const index = geometry.getIndex()?.array;
+    const triangles = Math.floor((index ? index.length : p.length / 3) / 3);
+
+    const buffer = new ArrayBuffer(84 + triangles * 50);
+    const view = new DataView(buffer);
+    view.setUint32(80, triangles, true);
+
+    let offset = 84;
+    const putVector = (x: number, y: number, z: number) => {
+        view.setFloat32(offset, x, true);
+        view.setFloat32(offset + 4, y, true);
+        view.setFloat32(offset + 8, z, true);
+        offset += 12;
+    };
+    for (let t = 0; t < triangles; t++) {
+        const a = (index ? index[t * 3] : t * 3) * 3;
+        const b = (index ? index[t * 3 + 1] : t * 3 + 1) * 3;
+        const c = (index ? index[t * 3 + 2] : t * 3 + 2) * 3;
+
+        // Face normal, from the winding
+        const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+        const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+        let nx = e1y * e2z - e1z * e2y;
+        let ny = e1z * e2x - e1x * e2z;
+        let nz = e1x * e2y - e1y * e2x;
+        const length = Math.hypot(nx, ny, nz) || 1;
+        nx /= length; ny /= length; nz /= length;
+
+        putVector(nx, ny, nz);
+        putVector(p[a], p[a + 1], p[a + 2]);
+        putVector(p[b], p[b + 1], p[b + 2]);
+        putVector(p[c], p[c + 1], p[c + 2]);
+        view.setUint16(offset, 0, true); // Attribute byte count
+        offset += 2;
+    }
+    return buffer;
+}
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+
+export interface MeshReport {
+    triangles: number;
+    nonManifoldEdges: number; // Edges shared by more than two triangles
+    openEdges: number; // Edges used by a single triangle (holes in the surface)
+    windingErrors: number; // Edges walked in the same direction by both triangles
+    degenerateTriangles: number; // Zero-area or collapsed triangles
+    shells: number; // Disconnected solids
+    volumeMm3: number; // Enclosed volume, for filament estimates
+    badFaces: Uint32Array; // Triangle indices touching any of the problems above
+}
+
+// Vertices are welded on a grid this many steps per mm (0.1µm apart), as slicers do
+const WELD_STEPS_PER_MM = 1e4;
+
+/** Number of problems a user should fix before printing (extra shells are not counted). */
+export function countMeshIssues(report: MeshReport): number {
+    return report.nonManifoldEdges + report.openEdges + report.windingErrors + report.degenerateTriangles;
+}
+
+/**
+ * Checks a triangle mesh the way a slicer sees it: vertices are welded by
+ * position first, since STL carries no connectivity.
+ */
+export function validateMesh(geometry: THREE.BufferGeometry): MeshReport {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const corners = index ? index.count : position.count;
+    const triangles = Math.floor(corners / 3);
+
+    // Plain arrays, so the loops below don't go through attribute accessors;
+    // interleaved or offset attributes are copied out first
+    let xyz: ArrayLike<number> = position.array;
+    if (!(position instanceof THREE.BufferAttribute) || position.itemSize !== 3 || position.normalized) {
+        const copy = new Float64Array(position.count * 3);
+        for (let i = 0; i < position.count; i++) {
+            copy[i * 3] = position.getX(i);
+            copy[i * 3 + 1] = position.getY(i);
+            copy[i * 3 + 2] = position.getZ(i);
+        }
+        xyz = copy;
+    }
+    const cornerIds: ArrayLike<number> = index ? index.array : Uint32Array.from({ length: corners }, (_, i) => i);
+
+    // 1. Weld vertices by quantized position
+    const { ids: welded, count: vertexCount } = weldVertices(xyz, position.count);
+    const corner = (t: number, k: number) => welded[cornerIds[t * 3 + k]];
+
+    // 2. Degenerate triangles
+    const degenerate = new Uint8Array(triangles);
+    let degenerateTriangles = 0;
+    let volume = 0;
+    for (let t = 0; t < triangles; t++) {
+        const i0 = cornerIds[t * 3] * 3, i1 = cornerIds[t * 3 + 1] * 3, i2 = cornerIds[t * 3 + 2] * 3;
+        const ax = xyz[i0], ay = xyz[i0 + 1], az = xyz[i0 + 2];
+        const bx = xyz[i1] - ax, by = xyz[i1 + 1] - ay, bz = xyz[i1 + 2] - az;
+        const cx = xyz[i2] - ax, cy = xyz[i2 + 1] - ay, cz = xyz[i2 + 2] - az;
+        const nx = by * cz - bz * cy, ny = bz * cx - bx * cz, nz = bx * cy - by * cx;
+        // Signed volume of the tetrahedron between the face and the origin
+        volume += (ax * nx + ay * ny + az * nz) / 6;
+        const v0 = corner(t, 0), v1 = corner(t, 1), v2 = corner(t, 2);
+        if (v0 === v1 || v1 === v2 || v2 === v0 || nx * nx + ny * ny + nz * nz < 1e-12) {
+            degenerate[t] = 1;
+            degenerateTriangles++;
+        }
+    }
+
+    // 3. Edge usage. Half-edges are bucketed by their lower vertex id (CSR
+    // layout), so each edge's uses can be found by scanning a tiny bucket
+    // instead of hashing millions of keys.
+    const bucketStart = new Int32Array(vertexCount + 1);
+    for (let t = 0; t < triangles; t++) {
+        if (degenerate[t]) continue;
+        for (let k = 0; k < 3; k++) {
+            bucketStart[Math.min(corner(t, k), corner(t, (k + 1) % 3)) + 1]++;
+        }
+    }
+    for (let i = 0; i < vertexCount; i++) bucketStart[i + 1] += bucketStart[i];
+
+    const fill = bucketStart.slice(0, vertexCount);
+    const halfEdges = bucketStart[vertexCount];
+    const upper = new Int32Array(halfEdges); // Higher vertex id of the edge
+    const forward = new Uint8Array(halfEdges); // Walked low -> high
+    const face = new Int32Array(halfEdges);
+    for (let t = 0; t < triangles; t++) {
+        if (degenerate[t]) continue;
+        for (let k = 0; k < 3; k++) {
+            const u = corner(t, k);
+            const v = corner(t, (k + 1) % 3);
+            const slot = fill[Math.min(u, v)]++;
+            upper[slot] = Math.max(u, v);
+            forward[slot] = u < v ? 1 : 0;
+            face[slot] = t;
+        }
+    }
+
+    // 4. Classify each edge and mark the faces around the bad ones
+    let nonManifoldEdges = 0;
+    let openEdges = 0;
+    let windingErrors = 0;
+    const badFace = degenerate.slice();
+    const seen = new Uint8Array(halfEdges);
+    for (let lo = 0; lo < vertexCount; lo++) {
+        const end = bucketStart[lo + 1];
+        for (let i = bucketStart[lo]; i < end; i++) {
+            if (seen[i]) continue;
+            let uses = 0;
+            let forwardUses = 0;
+            for (let j = i; j < end; j++) {
+                if (upper[j] !== upper[i]) continue;
+                seen[j] = 1;
+                uses++;
+                forwardUses += forward[j];
+            }
+
+            let bad = true;
+            if (uses > 2) nonManifoldEdges++;
+            else if (uses === 1) openEdges++;
+            else if (forwardUses !== 1) windingErrors++;
+            else bad = false;
+
+            if (bad) {
+                for (let j = i; j < end; j++) {
+                    if (upper[j] === upper[i]) badFace[face[j]] = 1;
+                }
+            }
+        }
+    }
+
+    let badCount = 0;
+    for (let t = 0; t < triangles; t++) badCount += badFace[t];
+    const badFaces = new Uint32Array(badCount);
+    for (let t = 0, n = 0; t < triangles; t++) {
+        if (badFace[t]) badFaces[n++] = t;
+    }
+
+    // 5. Shells via union-find over welded vertices
+    const parent = new Int32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) parent[i] = i;
+    const find = (x: number): number => {
+        while (parent[x] !== x) {
+            parent[x] = parent[parent[x]];
+            x = parent[x];
+        }
+        return x;
+    };
+    const used = new Uint8Array(vertexCount);
+    for (let t = 0; t < triangles; t++) {
+        if (degenerate[t]) continue;
+        const v0 = corner(t, 0), v1 = corner(t, 1), v2 = corner(t, 2);
+        used[v0] = used[v1] = used[v2] = 1;
+        parent[find(v1)] = find(v0);
+        parent[find(v2)] = find(v0);
+    }
+    let shells = 0;
+    for (let i = 0; i < vertexCount; i++) {
+        if (used[i] && find(i) === i) shells++;
+    }
+
+    return {
+        triangles,
+        nonManifoldEdges,
+        openEdges,
+        windingErrors,
+        degenerateTriangles,
+        shells,
+        volumeMm3: Math.abs(volume), // Whichever way the faces wind
+        badFaces
+    };
+}
+
+/**
+ * Id of every vertex after welding those at the same quantized position,
+ * numbered in order of first appearance. An open-addressing hash table on
+ * the integer coordinates, so no keys are built per vertex.
+ */
+function weldVertices(xyz: ArrayLike<number>, count: number): { ids: Int32Array; count: number } {
+    const welded = new Int32Array(count);
+    let size = 1;
+    while (size < count * 2) size <<= 1;
+    const table = new Int32Array(size).fill(-1); // Vertex index of the first one at each position
+    const quantized = new Int32Array(count * 3);
+    let next = 0;
+
+    for (let i = 0; i < count; i++) {
+        const qx = Math.round(xyz[i * 3] * WELD_STEPS_PER_MM);
+        const qy = Math.round(xyz[i * 3 + 1] * WELD_STEPS_PER_MM);
+        const qz = Math.round(xyz[i * 3 + 2] * WELD_STEPS_PER_MM);
+        quantized[i * 3] = qx;
+        quantized[i * 3 + 1] = qy;
+        quantized[i * 3 + 2] = qz;
+
+        let slot = (Math.imul(qx, 73856093) ^ Math.imul(qy, 19349663) ^ Math.imul(qz, 83492791)) & (size - 1);
+        for (;;) {
+            const other = table[slot];
+            if (other < 0) {
+                table[slot] = i;
+                welded[i] = next++;
+                break;
+            }
+            if (quantized[other * 3] === qx && quantized[other * 3 + 1] === qy && quantized[other * 3 + 2] === qz) {
+                welded[i] = welded[other];
+                break;
+            }
+            slot = (slot + 1) & (size - 1);
+        }
+    }
+    return { ids: welded, count: next };
+}
@@ -0,0 +1,475 @@
+import type { ProcessingOptions, OutlineKind } from './types';
+
+type Point = [number, number];
+export type Polygon = Point[];
+
+export interface OutlineField {
+    inside: Uint8Array; // 1 where the pixel centre lies inside the outline
+    distancePx: Float32Array; // Distance from each inside pixel to the outline, in pixels
+}
+
+// Line segments per Bézier curve or arc when flattening path data
+const CURVE_STEPS = 24;
+
+/**
+ * Rasterizes the outline of the print at the image resolution and measures
+ * how far each pixel lies from it, so borders keep a constant millimetre width
+ * whatever the shape. Returns null for the cylinder and sphere, which have no
+ * outline of their own.
+ */
+export function buildOutlineField(width: number, height: number, options: ProcessingOptions): OutlineField | null {
+    const inside = buildOutlineMask(width, height, options);
+    return inside ? { inside, distancePx: distanceToOutside(inside, width, height) } : null;
+}
+
+/**
+ * Pixels inside the outline of the print: flat prints (rectangle with optional
+ * rounded corners, or the oval cut), arcs, circles and custom outlines. Null
+ * for the cylinder and sphere.
+ */
+export function buildOutlineMask(width: number, height: number, options: ProcessingOptions): Uint8Array | null {
+    const shape = options.shape?.type ?? 'flat';
+    if (shape === 'cylinder' || shape === 'sphere') return null;
+
+    if (shape === 'outline') {
+        const outline = options.shape.outline;
+        const kind = outline?.kind ?? 'heart';
+        const pathData = kind === 'svg' ? outline?.svgPath ?? '' : builtInPath(kind, width, height);
+        return closePinchedCorners(rasterize(fitToImage(parsePathData(pathData), width, height), width, height), width, height);
+    }
+    if (shape === 'circle') {
+        const cx = width / 2;
+        const cy = height / 2;
+        const radius = Math.min(width, height) / 2;
+        return maskFrom(width, height, (px, py) => Math.hypot(px - cx, py - cy) <= radius);
+    }
+    if (options.border?.type === 'oval') {
+        // "Oval" means the whole lithophane is oval: the ellipse inscribed in the image
+        return maskFrom(width, height, (px, py) => {
+            const u = (px / (width - 1)) * 2 - 1;
+            const v = (py / (height - 1)) * 2 - 1;
+            return u * u + v * v <= 1;
+        });
+    }
+
+    const pixelSizeMm = options.pixelSize || 0.15;
+    const r = Math.min((options.border?.cornerRadiusMm ?? 0) / pixelSizeMm, (Math.min(width, height) - 1) / 2);
+    return maskFrom(width, height, (px, py) => {
+        if (r <= 0) return true;
+        // Distance past the corner circle's centre, per axis
+        const dx = Math.max(0, r - px, px - (width - 1 - r));
+        const dy = Math.max(0, r - py, py - (height - 1 - r));
+        return dx * dx + dy * dy <= r * r;
+    });
+}
+
+/**
+ * Top and bottom rows of the print along the centre column of the image, where
+ * centred features (text, hanging holes, the loop) line up. `inside` is the
+ * mask from `buildOutlineMask`; without one the print fills the image.
+ */
+export function centreColumnExtent(inside: Uint8Array | null, width: number, height: number): { top: number; bottom: number } {
+    let top = 0;
+    let bottom = height - 1;
+    if (inside) {
+        const column = Math.floor(width / 2);
+        while (top < height - 1 && !inside[top * width + column]) top++;
+        while (bottom > 0 && !inside[bottom * width + column]) bottom--;
+    }
+    return { top, bottom };
+}
+
+function maskFrom(width: number, height: number, isInside: (px: number, py: number) => boolean): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+            if (isInside(px, py)) mask[py * width + px] = 1;
+        }
+    }
+    return mask;
+}
+
+/** Concatenated `d` attributes of every <path> in an SVG document. */
+export function extractSvgPaths(svg: string): string {
+    const paths: string[] = [];
+    for (const tag of svg.match(/<path\b[^>]*>/gi) ?? []) {
+        const d = /\sd\s*=\s*(["'])([\s\S]*?)\1/i.exec(tag);
+        if (d) paths.push(d[2]);
+    }
+    return paths.join(' ');
+}
+
+// Built-in outlines as path data. The rounded rectangle is laid out in pixels
+// so it fills the image; the others keep their proportions when fitted.
+function builtInPath(kind: Exclude<OutlineKind, 'svg'>, width: number, height: number): string {
+    switch (kind) {
+        case 'heart':
+            return 'M50 92 C22 72 0 54 0 30 C0 12 14 0 28 0 C38 0 46 6 50 15 C54 6 62 0 72 0 C86 0 100 12 100 30 C100 54 78 72 50 92 Z';
+        case 'star':
+            return polygonPath(10, (i) => (i % 2 === 0 ? 50 : 20));
+        case 'hexagon':
+            return polygonPath(6, () => 50);
+        case 'roundedRect': {
+            const w = width - 1;
+            const h = height - 1;
+            const r = Math.min(w, h) * 0.15;
+            return `M${r} 0 H${w - r} A${r} ${r} 0 0 1 ${w} ${r} V${h - r} A${r} ${r} 0 0 1 ${w - r} ${h} ` +
+                `H${r} A${r} ${r} 0 0 1 0 ${h - r} V${r} A${r} ${r} 0 0 1 ${r} 0 Z`;
+        }
+    }
+}
+
+// Regular polygon (or star, with alternating radii) with a vertex pointing up
+function polygonPath(vertices: number, radius: (i: number) => number): string {
+    const points: string[] = [];
+    for (let i = 0; i < vertices; i++) {
+        const angle = -Math.PI / 2 + (i / vertices) * 2 * Math.PI;
+        points.push(`${50 + radius(i) * Math.cos(angle)} ${50 + radius(i) * Math.sin(angle)}`);
+    }
+    return `M${points.join(' L')} Z`;
+}
+
+/**
+ * Flattens SVG path data into closed polygons. Supports every path command
+ * (M, L, H, V, C, S, Q, T, A, Z, absolute and relative); curves and arcs are
+ * split into straight segments. With `keepOpen`, subpaths of two points are
+ * kept too, so the result can be stroked as open polylines.
+ */
+export function parsePathData(d: string, keepOpen = false): Polygon[] {
+    const tokens = d.match(/[a-df-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+    const polygons: Polygon[] = [];
+    let current: Polygon = [];
+    let x = 0, y = 0; // Current point
+    let startX = 0, startY = 0; // Start of the subpath
+    let ctrlX = 0, ctrlY = 0; // Last control point, for S and T
+    let command = '';
+    let prevCommand = '';
+    let i = 0;
+
+    const num = () => parseFloat(tokens[i++]);
+    const lineTo = (nx: number, ny: number) => {
+        current.push([nx, ny]);
+        x = nx;
+        y = ny;
+    };
+    const closeSubpath = () => {
+        if (current.length > (keepOpen ? 1 : 2)) polygons.push(current);
+        current = [];
+    };
+
+    while (i < tokens.length) {
+        if (/[a-z]/i.test(tokens[i])) {
+            command = tokens[i++];
+        } else if (command === '') {
+            i++; // Numbers before the first command
+            continue;
+        }
+        const rel = command === command.toLowerCase();
+        const ox = rel ? x : 0;
+        const oy = rel ? y : 0;
+
+        switch (command.toUpperCase()) {
+            case 'M': {
+                closeSubpath();
+                const nx = ox + num(), ny = oy + num();
+                startX = nx;
+                startY = ny;
+                lineTo(nx, ny);
+                // Further coordinate pairs are implicit line-tos
+                command = rel ? 'l' : 'L';
+                break;
+            }
+            case 'L':
+                lineTo(ox + num(), oy + num());
+                break;
+            case 'H':
+                lineTo(ox + num(), y);
+                break;
+            case 'V':
+                lineTo(x, oy + num());
+                break;
+            case 'C':
+            case 'S': {
+                let c1x: number, c1y: number;
+                if (command.toUpperCase() === 'C') {
+                    c1x = ox + num();
+                    c1y = oy + num();
+                } else {
+                    // Reflect the previous control point when following a cubic
+                    const smooth = /[CS]/i.test(prevCommand);
+                    c1x = smooth ? 2 * x - ctrlX : x;
+                    c1y = smooth ? 2 * y - ctrlY : y;
+                }
+                const c2x = ox + num(), c2y = oy + num();
+                const ex = ox + num(), ey = oy + num();
+                const sx = x, sy = y;
+                for (let s = 1; s <= CURVE_STEPS; s++) {
+                    const t = s / CURVE_STEPS;
+                    const mt = 1 - t;
+                    lineTo(
+                        mt * mt * mt * sx + 3 * mt * mt * t * c1x + 3 * mt * t * t * c2x + t * t * t * ex,
+                        mt * mt * mt * sy + 3 * mt * mt * t * c1y + 3 * mt * t * t * c2y + t * t * t * ey
+                    );
+                }
+                ctrlX = c2x;
+                ctrlY = c2y;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                let cx: number, cy: number;
+                if (command.toUpperCase() === 'Q') {
+                    cx = ox + num();
+                    cy = oy + num();
+                } else {
+                    const smooth = /[QT]/i.test(prevCommand);
+                    cx = smooth ? 2 * x - ctrlX : x;
+                    cy = smooth ? 2 * y - ctrlY : y;
+                }
+                const ex = ox + num(), ey = oy + num();
+                const sx = x, sy = y;
+                for (let s = 1; s <= CURVE_STEPS; s++) {
+                    const t = s / CURVE_STEPS;
+                    const mt = 1 - t;
+                    lineTo(mt * mt * sx + 2 * mt * t * cx + t * t * ex, mt * mt * sy + 2 * mt * t * cy + t * t * ey);
+                }
+                ctrlX = cx;
+                ctrlY = cy;
+                break;
+            }
+            case 'A': {
+                const rx = num(), ry = num(), rotation = num();
+                const largeArc = num() !== 0, sweep = num() !== 0;
+                const ex = ox + num(), ey = oy + num();
+                for (const [px, py] of flattenArc(x, y, rx, ry, rotation, largeArc, sweep, ex, ey)) {
+                    lineTo(px, py);
+                }
+                break;
+            }
+            case 'Z':
+                closeSubpath();
+                x = startX;
+                y = startY;
+                break;
+            default:
+                // Unknown command: skip its arguments
+                while (i < tokens.length && !/[a-z]/i.test(tokens[i])) i++;
+        }
+        prevCommand = command;
+    }
+    closeSubpath();
+    return polygons;
+}
+
+// Endpoint-to-centre arc conversion from the SVG specification (appendix B.2.4)
+function flattenArc(
+    x1: number, y1: number,
+    rx: number, ry: number,
+    rotationDeg: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x2: number, y2: number
+): Point[] {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0) return [[x2, y2]];
+
+    const phi = rotationDeg * Math.PI / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (x1 - x2) / 2;
+    const dy = (y1 - y2) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+
+    // Scale radii up when they cannot span the endpoints
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = coef * (rx * y1p) / ry;
+    const cyp = coef * -(ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+    const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+        Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const points: Point[] = [];
+    for (let s = 1; s <= CURVE_STEPS; s++) {
+        const t = theta1 + delta * s / CURVE_STEPS;
+        const ex = rx * Math.cos(t);
+        const ey = ry * Math.sin(t);
+        points.push([cos * ex - sin * ey + cx, sin * ex + cos * ey + cy]);
+    }
+    return points;
+}
+
+// Scales the polygons uniformly to fill the image, centred, touching its edges
+function fitToImage(polygons: Polygon[], width: number, height: number): Polygon[] {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const polygon of polygons) {
+        for (const [x, y] of polygon) {
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    if (!(maxX > minX && maxY > minY)) return [];
+
+    // Pixel centres run from 0 to width - 1
+    const scale = Math.min((width - 1) / (maxX - minX), (height - 1) / (maxY - minY));
+    const offsetX = (width - 1 - (maxX - minX) * scale) / 2;
+    const offsetY = (height - 1 - (maxY - minY) * scale) / 2;
+    return polygons.map((polygon) => polygon.map(([x, y]): Point => [
+        offsetX + (x - minX) * scale,
+        offsetY + (y - minY) * scale
+    ]));
+}
+
+// Scanline fill of pixel centres with the nonzero winding rule (the SVG default)
+function rasterize(polygons: Polygon[], width: number, height: number): Uint8Array {
+    const inside = new Uint8Array(width * height);
+    const crossings: { x: number; dir: number }[] = [];
+
+    for (let py = 0; py < height; py++) {
+        crossings.length = 0;
+        for (const polygon of polygons) {
+            for (let k = 0; k < polygon.length; k++) {
+                const [ax, ay] = polygon[k];
+                const [bx, by] = polygon[(k + 1) % polygon.length];
+                // Half-open rule so shared vertices are counted once
+                if ((ay <= py && by > py) || (by <= py && ay > py)) {
+                    crossings.push({ x: ax + (py - ay) / (by - ay) * (bx - ax), dir: by > ay ? 1 : -1 });
+                }
+            }
+        }
+        crossings.sort((a, b) => a.x - b.x);
+
+        let winding = 0;
+        for (let k = 0; k < crossings.length - 1; k++) {
+            winding += crossings[k].dir;
+            if (winding === 0) continue;
+            const from = Math.max(0, Math.ceil(crossings[k].x));
+            const to = Math.min(width - 1, Math.floor(crossings[k + 1].x));
+            for (let px = from; px <= to; px++) inside[py * width + px] = 1;
+        }
+    }
+    return inside;
+}
+
+// Neighbours of a mesh vertex in order around it. buildMesh splits every cell
+// along its TR-BL diagonal, so each consecutive pair spans one triangle.
+const VERTEX_RING: [number, number][] = [[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]];
+
+// Where the triangles around an inside pixel form two fans that meet only at
+// that pixel, the walls of both fans share its vertical edge, which is then
+// non-manifold. Thin tips of the star do this at coarse resolutions. Filling
+// the outside pixels around such a pixel closes the gaps between the fans;
+// only ever filling, the passes settle.
+function closePinchedCorners(inside: Uint8Array, width: number, height: number): Uint8Array {
+    const isInside = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && inside[y * width + x] === 1;
+    const ring = new Uint8Array(VERTEX_RING.length);
+    for (let changed = true; changed;) {
+        changed = false;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (!inside[y * width + x]) continue;
+                // Count the runs of triangles around the pixel
+                for (let k = 0; k < ring.length; k++) ring[k] = isInside(x + VERTEX_RING[k][0], y + VERTEX_RING[k][1]) ? 1 : 0;
+                let fans = 0;
+                for (let k = 0; k < ring.length; k++) {
+                    const next = (k + 1) % ring.length;
+                    const previous = (k + ring.length - 1) % ring.length;
+                    if (ring[k] && ring[next] && !ring[previous]) fans++;
+                }
+                if (fans < 2) continue;
+                for (const [dx, dy] of VERTEX_RING) {
+                    const nx = x + dx, ny = y + dy;
+                    if (nx >= 0 && nx < width && ny >= 0 && ny < height && !inside[ny * width + nx]) {
+                        inside[ny * width + nx] = 1;
+                        changed = true;
+                    }
+                }
+            }
+        }
+    }
+    return inside;
+}
+
+/**
+ * Euclidean distance (in pixels) from every inside pixel to the outline, using
+ * the separable exact transform of Felzenszwalb & Huttenlocher. Pixels beyond
+ * the image edge count as outside. Outside pixels get 0.
+ */
+export function distanceToOutside(inside: Uint8Array, width: number, height: number): Float32Array {
+    // Work on a grid padded by one outside pixel on each side
+    const w = width + 2;
+    const h = height + 2;
+    const grid = new Float64Array(w * h);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            grid[(y + 1) * w + x + 1] = inside[y * width + x] ? 1e20 : 0;
+        }
+    }
+
+    const line = new Float64Array(Math.max(w, h));
+    const result = new Float64Array(Math.max(w, h));
+    const v = new Int32Array(Math.max(w, h));
+    const z = new Float64Array(Math.max(w, h) + 1);
+
+    const transform1D = (n: number) => {
+        let k = 0;
+        v[0] = 0;
+        z[0] = -Infinity;
+        z[1] = Infinity;
+        for (let q = 1; q < n; q++) {
+            let s = ((line[q] + q * q) - (line[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            while (s <= z[k]) {
+                k--;
+                s = ((line[q] + q * q) - (line[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            }
+            k++;
+            v[k] = q;
+            z[k] = s;
+            z[k + 1] = Infinity;
+        }
+        k = 0;
+        for (let q = 0; q < n; q++) {
+            while (z[k + 1] < q) k++;
+            result[q] = (q - v[k]) * (q - v[k]) + line[v[k]];
+        }
+    };
+
+    for (let x = 0; x < w; x++) {
+        for (let y = 0; y < h; y++) line[y] = grid[y * w + x];
+        transform1D(h);
+        for (let y = 0; y < h; y++) grid[y * w + x] = result[y];
+    }
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) line[x] = grid[y * w + x];
+        transform1D(w);
+        for (let x = 0; x < w; x++) grid[y * w + x] = result[x];
+    }
+
+    // Distance to the nearest outside pixel centre, less one pixel: the mesh
+    // edge runs through the centres of the outermost inside pixels
+    const distance = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!inside[y * width + x]) continue;
+            distance[y * width + x] = Math.sqrt(grid[(y + 1) * w + x + 1]) - 1;
+        }
+    }
+    return distance;
+}
@@ -0,0 +1,235 @@
+import type { ProcessingOptions } from './types';
+import * as THREE from 'three';
+import { applyImageAdjustments, applyLocalContrast, applySharpen, applySmoothing } from './adjustments';
+import { computeDepthMap, layerStatistics, renderDepthPreview, splitBorderRegions } from './heightmap';
+import type { LayerStatistics } from './heightmap';
+import { buildMesh, buildLampRing, buildHangingLoop, exportStl } from './mesh';
+import { planFilamentStack } from './colorStack';
+import { summarizeHeights } from './layerSchedule';
+import type { HeightSummary } from './layerSchedule';
+import { buildStandGeometry } from './standGenerator';
+import { write3MF } from './threemf';
+import { validateMesh } from './meshValidation';
+import type { MeshReport } from './meshValidation';
+import { hangingFeatures } from './hanging';
+import type { HangingFeature } from './hanging';
+import { buildOutlineMask } from './outline';
+import { simplifyMesh } from './simplify';
+import { compareBacklit, renderBacklit } from './backlit';
+import { captionStripRows } from './text';
+
+export type ProcessingStage = 'adjust' | 'quantize' | 'mesh' | 'simplify' | 'validate' | 'export';
+
+// progress is 0-1 within the given stage
+export type ProgressCallback = (stage: ProcessingStage, progress: number) => void;
+
+export interface PipelineResult {
+    preview: Uint8ClampedArray; // RGBA grayscale visualization of the depth map
+    adjusted: Uint8ClampedArray; // RGBA image as quantized, after all adjustments and filters
+    backlit: Uint8ClampedArray; // RGBA prediction of the print on a light box
+    difference: Uint8ClampedArray; // RGBA difference between `backlit` and the source image
+    backlitError: number; // RMS brightness error of `backlit` against the source, 0-255
+    positions: Float32Array;
+    normals: Float32Array;
+    thickness: Float32Array; // Per vertex, in mm, for the backlit preview
+    indices: Uint32Array;
+    stl: ArrayBuffer; // Binary STL
+    heights: HeightSummary;
+    layers: LayerStatistics; // Histogram, boundaries and pixel counts of the layers
+    report: MeshReport; // Printability check of the generated mesh
+    unsimplifiedTriangles: number; // Triangle count before simplification (the same as the report's without it)
+    hanging: HangingFeature[]; // Holes, pockets and loop, outlined in the 2D preview
+}
+
+/**
+ * Pixel dimensions of the print the source image is resampled into. The image
+ * fills the top `imageHeight` rows; a caption strip, if any, takes the rest.
+ */
+export function getTargetSize(imageWidth: number, imageHeight: number, options: ProcessingOptions): { width: number; height: number; imageHeight: number } {
+    // Target resolution: ~0.1mm per pixel for high quality
+    const pixelSizeMm = options.pixelSize || 0.15;
+    const width = Math.round(options.widthMm / pixelSizeMm);
+    const scale = width / imageWidth;
+    const rows = Math.round(imageHeight * scale);
+    return { width, height: rows + captionStripRows(options), imageHeight: rows };
+}
+
+/**
+ * Appends white rows to image pixels `width` wide until they are `height`
+ * rows tall, leaving room for the caption strip.
+ */
+export function extendToPrint(data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+    if (data.length >= width * height * 4) return data;
+    const out = new Uint8ClampedArray(width * height * 4).fill(255);
+    out.set(data);
+    return out;
+}
+
+/**
+ * Runs the whole lithophane pipeline over raw RGBA pixels that have already been
+ * resampled to the target resolution (see `getTargetSize`). It never touches the DOM, so it can run
+ * inside a Web Worker or from Node. `data` is modified in place.
+ */
+export function runPipeline(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions,
+    onProgress: ProgressCallback = () => { }
+): PipelineResult {
+    const reportValidate = stageReporter(onProgress, 'validate');
+    const reportExport = stageReporter(onProgress, 'export');
+
+    // Adjustments work in place, and the backlit render is judged against the original
+    const source = data.slice();
+    const depthData = prepareDepthMap(data, width, height, options, onProgress);
+    const backlit = renderBacklit(depthData, options);
+    const comparison = compareBacklit(backlit, source, width, height, options);
+    const built = buildMesh(depthData, width, height, options, stageReporter(onProgress, 'mesh'));
+    const unsimplifiedTriangles = built.getIndex()!.count / 3;
+    const geometry = simplify(built, options, stageReporter(onProgress, 'simplify'));
+
+    reportValidate(0);
+    const report = validateMesh(geometry);
+    reportValidate(1);
+
+    reportExport(0);
+    const stl = exportStl(geometry);
+    reportExport(1);
+
+    return {
+        preview: renderDepthPreview(depthData, planFilamentStack(options)?.palette),
+        adjusted: data,
+        backlit,
+        difference: comparison.difference,
+        backlitError: comparison.rmse,
+        positions: geometry.getAttribute('position').array as Float32Array,
+        normals: geometry.getAttribute('normal').array as Float32Array,
+        thickness: geometry.getAttribute('thickness').array as Float32Array,
+        indices: geometry.getIndex()!.array as Uint32Array, // buildMesh and simplifyMesh both index with 32 bits
+        stl,
+        heights: summarizeHeights(depthData, options),
+        layers: layerStatistics(imagePixels(data, width, height, options), width, height - captionStripRows(options), options),
+        report,
+        unsimplifiedTriangles,
+        hanging: hangingFeatures(width, height, options, buildOutlineMask(width, height, options))
+    };
+}
+
+export interface PackageInfo {
+    sourceName: string; // Original image file name, embedded as metadata
+}
+
+/**
+ * Same pipeline as `runPipeline`, but packages the result as 3MF with the image,
+ * the border band, the lamp ring, the ornament loop and the fitted stand as
+ * separately named bodies.
+ */
+export function runPackagePipeline(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions,
+    info: PackageInfo,
+    onProgress: ProgressCallback = () => { }
+): Uint8Array {
+    const reportMesh = stageReporter(onProgress, 'mesh');
+    const reportExport = stageReporter(onProgress, 'export');
+
+    const depthData = prepareDepthMap(data, width, height, options, onProgress);
+    const regions = splitBorderRegions(depthData, width, height, options);
+
+    // The lamp ring and the ornament loop become bodies of their own instead of
+    // being merged into each region: the ring is a part of the cylinder or a
+    // separate object under the sphere, the loop a part of the print
+    const ring = buildLampRing(width, height, options);
+    const separateRing = options.shape?.type === 'sphere';
+    const loop = buildHangingLoop(width, height, options);
+    let regionOptions = ring ? { ...options, shape: { ...options.shape, ring: undefined } } : options;
+    if (loop) regionOptions = { ...regionOptions, mounting: { ...regionOptions.mounting!, loop: undefined } };
+
+    reportMesh(0);
+    const reportSimplify = stageReporter(onProgress, 'simplify');
+    const image = buildMesh(regions.image, width, height, regionOptions, (p) => reportMesh(p * 0.5));
+    const parts = [{ name: 'Image', geometry: simplify(image, options, (p) => reportSimplify(regions.border ? p * 0.5 : p)) }];
+    if (regions.border) {
+        const border = buildMesh(regions.border, width, height, regionOptions, (p) => reportMesh(0.5 + p * 0.5));
+        parts.push({ name: 'Border', geometry: simplify(border, options, (p) => reportSimplify(0.5 + p * 0.5)) });
+    }
+    if (ring && !separateRing) parts.push({ name: 'Socket Ring', geometry: ring });
+    if (loop) parts.push({ name: 'Hanging Loop', geometry: loop });
+
+    // Park the stand in front of the print so the two never overlap on the bed
+    const stand = buildStandGeometry(options);
+    const printBox = new THREE.Box3();
+    for (const part of parts) {
+        part.geometry.computeBoundingBox();
+        printBox.union(part.geometry.boundingBox!);
+    }
+    stand.computeBoundingBox();
+    const standBox = stand.boundingBox!;
+    stand.translate(
+        (printBox.min.x + printBox.max.x) / 2 - (standBox.min.x + standBox.max.x) / 2,
+        printBox.min.y - 10 - standBox.max.y,
+        0
+    );
+    reportMesh(1);
+
+    reportExport(0);
+    const objects = [{ name: 'Lithophane', parts }];
+    if (ring && separateRing) objects.push({ name: 'Base Ring', parts: [{ name: 'Base Ring', geometry: ring }] });
+    objects.push({ name: 'Stand', parts: [{ name: 'Stand', geometry: stand }] });
+    const pkg = write3MF(objects, {
+        title: info.sourceName,
+        sourceImage: info.sourceName,
+        options
+    });
+    reportExport(1);
+
+    return pkg;
+}
+
+function prepareDepthMap(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ProcessingOptions,
+    onProgress: ProgressCallback
+): Float32Array {
+    const reportAdjust = stageReporter(onProgress, 'adjust');
+
+    // The caption strip below the image is left out of the adjustments
+    const image = imagePixels(data, width, height, options);
+    const rows = height - captionStripRows(options);
+    reportAdjust(0);
+    applyImageAdjustments(image, options);
+    applySmoothing(image, width, rows, options);
+    applyLocalContrast(image, width, rows, options);
+    applySharpen(image, width, rows, options);
+    reportAdjust(1);
+
+    return computeDepthMap(data, width, height, options, stageReporter(onProgress, 'quantize'));
+}
+
+// The rows of the image, without the caption strip below it
+function imagePixels(data: Uint8ClampedArray, width: number, height: number, options: ProcessingOptions): Uint8ClampedArray {
+    return data.subarray(0, width * (height - captionStripRows(options)) * 4);
+}
+
+function simplify(geometry: THREE.BufferGeometry, options: ProcessingOptions, onProgress: (progress: number) => void): THREE.BufferGeometry {
+    if (!options.simplify?.enabled) return geometry;
+    const simplified = simplifyMesh(geometry, options.simplify.toleranceMm, onProgress);
+    geometry.dispose();
+    return simplified;
+}
+
+// Emits at most ~50 updates per stage so the worker does not flood the main thread
+function stageReporter(onProgress: ProgressCallback, stage: ProcessingStage) {
+    let last = -1;
+    return (progress: number) => {
+        if (progress === 0 || progress === 1 || progress - last >= 0.02) {
+            last = progress;
+            onProgress(stage, progress);
+        }
+    };
+}
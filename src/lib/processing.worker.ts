@@ -0,0 +1,59 @@
+import { runPackagePipeline, runPipeline } from './pipeline';
+import type { PipelineResult, ProcessingStage } from './pipeline';
+import type { ProcessingOptions } from './types';
+
+interface JobInput {
+    id: number;
+    data: Uint8ClampedArray; // RGBA pixels at target resolution
+    width: number;
+    height: number;
+    options: ProcessingOptions;
+}
+
+export type WorkerRequest =
+    | JobInput & { type: 'process' }
+    | JobInput & { type: '3mf'; sourceName: string };
+
+export type WorkerResponse =
+    | { id: number; type: 'progress'; stage: ProcessingStage; progress: number }
+    | { id: number; type: 'result'; result: PipelineResult }
+    | { id: number; type: 'package'; data: Uint8Array }
+    | { id: number; type: 'error'; message: string };
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+self.addEventListener('message', (e: MessageEvent<WorkerRequest>) => {
+    const request = e.data;
+    const { id, data, width, height, options } = request;
+    const onProgress = (stage: ProcessingStage, progress: number) => {
+        post({ id, type: 'progress', stage, progress });
+    };
+
+    try {
+        if (request.type === '3mf') {
+            const pkg = runPackagePipeline(data, width, height, options, { sourceName: request.sourceName }, onProgress);
+            post({ id, type: 'package', data: pkg }, [pkg.buffer]);
+            return;
+        }
+
+        const result = runPipeline(data, width, height, options, onProgress);
+
+        // Hand the buffers over instead of copying them
+        post({ id, type: 'result', result }, [
+            result.preview.buffer,
+            result.adjusted.buffer,
+            result.backlit.buffer,
+            result.difference.buffer,
+            result.positions.buffer,
+            result.normals.buffer,
+            result.thickness.buffer,
+            result.indices.buffer,
+            result.report.badFaces.buffer,
+            result.stl
+        ]);
+    } catch (err) {
+        post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+});
@@ -0,0 +1,60 @@
+/**
+ * Resizes RGBA pixels without a canvas. Downscaling averages every source pixel
+ * under the target pixel's footprint; upscaling samples bilinearly.
+ */
+export function resampleRGBA(
+    src: Uint8ClampedArray,
+    srcWidth: number,
+    srcHeight: number,
+    width: number,
+    height: number
+): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(width * height * 4);
+    const sx = srcWidth / width;
+    const sy = srcHeight / height;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = (y * width + x) * 4;
+
+            if (sx > 1 || sy > 1) {
+                // Box filter over the footprint
+                const x0 = Math.floor(x * sx);
+                const x1 = Math.max(x0 + 1, Math.min(srcWidth, Math.floor((x + 1) * sx)));
+                const y0 = Math.floor(y * sy);
+                const y1 = Math.max(y0 + 1, Math.min(srcHeight, Math.floor((y + 1) * sy)));
+                let r = 0, g = 0, b = 0, a = 0;
+                for (let yy = y0; yy < y1; yy++) {
+                    for (let xx = x0; xx < x1; xx++) {
+                        const i = (yy * srcWidth + xx) * 4;
+                        r += src[i];
+                        g += src[i + 1];
+                        b += src[i + 2];
+                        a += src[i + 3];
+                    }
+                }
+                const count = (x1 - x0) * (y1 - y0);
+                out[o] = r / count;
+                out[o + 1] = g / count;
+                out[o + 2] = b / count;
+                out[o + 3] = a / count;
+            } else {
+                // Bilinear between the four nearest source pixels
+                const fx = Math.max(0, Math.min(srcWidth - 1, (x + 0.5) * sx - 0.5));
+                const fy = Math.max(0, Math.min(srcHeight - 1, (y + 0.5) * sy - 0.5));
+                const x0 = Math.floor(fx);
+                const y0 = Math.floor(fy);
+                const x1 = Math.min(srcWidth - 1, x0 + 1);
+                const y1 = Math.min(srcHeight - 1, y0 + 1);
+                const tx = fx - x0;
+                const ty = fy - y0;
+                for (let c = 0; c < 4; c++) {
+                    const top = src[(y0 * srcWidth + x0) * 4 + c] * (1 - tx) + src[(y0 * srcWidth + x1) * 4 + c] * tx;
+                    const bottom = src[(y1 * srcWidth + x0) * 4 + c] * (1 - tx) + src[(y1 * srcWidth + x1) * 4 + c] * tx;
+                    out[o + c] = top * (1 - ty) + bottom * ty;
+                }
+            }
+        }
+    }
+    return out;
+}
@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+
+// Coordinates are single precision, so "exactly" coplanar points are only
+// coplanar to within rounding
+const PLANE_EPSILON_MM = 1e-4;
+// Twice the smallest triangle area a collapse may leave behind
+const MIN_DOUBLE_AREA = 1e-6;
+const MAX_PASSES = 32;
+// Neighbours tried per vertex and pass, nearest first
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Merges coplanar regions of a closed mesh (the base, border flats, walls,
+ * uniform layers) into large triangles by collapsing edges. A vertex only
+ * moves onto a neighbour that lies within `toleranceMm` of the original plane
+ * of every face around it, so with the default tolerance the heights are kept
+ * exactly; corners and steps between layers stay put. Each face remembers the
+ * plane of the face it came from, so the error never adds up over collapses.
+ * Collapses that would pinch the surface, flip a face or leave a sliver of
+ * zero area are skipped, so a watertight mesh stays watertight.
+ */
+export function simplifyMesh(
+    geometry: THREE.BufferGeometry,
+    toleranceMm: number,
+    onProgress?: (progress: number) => void
+): THREE.BufferGeometry {
+    const pos = Float64Array.from(geometry.getAttribute('position').array);
+    const tri = Int32Array.from(geometry.getIndex()!.array);
+    const vertexCount = pos.length / 3;
+    const faceCount = tri.length / 3;
+    const maxDistance = Math.max(0, toleranceMm) + PLANE_EPSILON_MM;
+
+    // Original plane of each face as (normal, offset); degenerate faces get a
+    // zero normal and pin their vertices, since they have no plane to keep to
+    const planes = new Float64Array(faceCount * 4);
+    const normal = new Float64Array(3);
+    const alive = new Uint8Array(faceCount).fill(1);
+    for (let f = 0; f < faceCount; f++) {
+        faceNormal(pos, tri[f * 3], tri[f * 3 + 1], tri[f * 3 + 2], normal);
+        const [nx, ny, nz] = normal;
+        const length = Math.hypot(nx, ny, nz);
+        if (length < MIN_DOUBLE_AREA) continue;
+        const a = tri[f * 3] * 3;
+        planes[f * 4] = nx / length;
+        planes[f * 4 + 1] = ny / length;
+        planes[f * 4 + 2] = nz / length;
+        planes[f * 4 + 3] = -(planes[f * 4] * pos[a] + planes[f * 4 + 1] * pos[a + 1] + planes[f * 4 + 2] * pos[a + 2]);
+    }
+
+    // Faces around each vertex
+    const vertexFaces: number[][] = Array.from({ length: vertexCount }, () => []);
+    for (let f = 0; f < faceCount; f++) {
+        for (let k = 0; k < 3; k++) vertexFaces[tri[f * 3 + k]].push(f);
+    }
+
+    // Faces are dropped from these lists lazily: dead ones are skipped, and a
+    // vertex's list is compacted when its turn comes
+    const liveFaces = (v: number): number[] => {
+        const faces = vertexFaces[v].filter((f) => alive[f]);
+        vertexFaces[v] = faces;
+        return faces;
+    };
+    const adjacent = (a: number, b: number): boolean => {
+        // Scan the smaller fan: merged regions grow vertices with huge ones
+        const [from, to] = vertexFaces[a].length <= vertexFaces[b].length ? [a, b] : [b, a];
+        for (const f of vertexFaces[from]) {
+            if (alive[f] && (tri[f * 3] === to || tri[f * 3 + 1] === to || tri[f * 3 + 2] === to)) return true;
+        }
+        return false;
+    };
+
+    // Neighbours of v, nearest first, so the merged triangles stay compact
+    const seen = new Int32Array(vertexCount);
+    let neighbours = new Int32Array(32);
+    let distances = new Float64Array(32);
+    let neighbourCount = 0;
+    const gatherNeighbours = (v: number, faces: number[]) => {
+        neighbourCount = 0;
+        for (const f of faces) {
+            for (let k = 0; k < 3; k++) {
+                const c = tri[f * 3 + k];
+                if (c === v || seen[c] === v + 1) continue;
+                seen[c] = v + 1;
+                if (neighbourCount === neighbours.length) {
+                    neighbours = growInt(neighbours);
+                    distances = growFloat(distances);
+                }
+                const d = (pos[c * 3] - pos[v * 3]) ** 2 + (pos[c * 3 + 1] - pos[v * 3 + 1]) ** 2 + (pos[c * 3 + 2] - pos[v * 3 + 2]) ** 2;
+                // Insertion sort: most vertices have few neighbours
+                let i = neighbourCount++;
+                while (i > 0 && distances[i - 1] > d) {
+                    neighbours[i] = neighbours[i - 1];
+                    distances[i] = distances[i - 1];
+                    i--;
+                }
+                neighbours[i] = c;
+                distances[i] = d;
+            }
+        }
+    };
+
+    // Moves v onto its neighbour u, given v's live faces and its gathered neighbours
+    const collapse = (v: number, u: number, facesV: number[]): boolean => {
+        // The edge must have exactly two faces, and the two vertices no common
+        // neighbours besides the corners opposite it, or the surface pinches
+        let shared = 0;
+        for (const f of facesV) {
+            if (tri[f * 3] === u || tri[f * 3 + 1] === u || tri[f * 3 + 2] === u) shared++;
+        }
+        if (shared !== 2) return false;
+        let common = 0;
+        for (let i = 0; i < neighbourCount; i++) {
+            const w = neighbours[i];
+            if (w !== u && adjacent(u, w) && ++common > 2) return false;
+        }
+        if (common !== 2) return false;
+
+        // Every face that keeps its place must stay on its plane and not flip
+        const ux = pos[u * 3], uy = pos[u * 3 + 1], uz = pos[u * 3 + 2];
+        for (const f of facesV) {
+            const a = tri[f * 3], b = tri[f * 3 + 1], c = tri[f * 3 + 2];
+            if (a === u || b === u || c === u) continue;
+            const p = f * 4;
+            if (planes[p] === 0 && planes[p + 1] === 0 && planes[p + 2] === 0) return false;
+            if (Math.abs(planes[p] * ux + planes[p + 1] * uy + planes[p + 2] * uz + planes[p + 3]) > maxDistance) return false;
+            faceNormal(pos, a === v ? u : a, b === v ? u : b, c === v ? u : c, normal);
+            if (Math.hypot(normal[0], normal[1], normal[2]) < MIN_DOUBLE_AREA) return false;
+            if (normal[0] * planes[p] + normal[1] * planes[p + 1] + normal[2] * planes[p + 2] <= 0) return false;
+        }
+
+        // Drop the two faces on the edge and hand the rest over to u
+        for (const f of facesV) {
+            const k = tri[f * 3] === v ? 0 : tri[f * 3 + 1] === v ? 1 : 2;
+            if (tri[f * 3] === u || tri[f * 3 + 1] === u || tri[f * 3 + 2] === u) {
+                alive[f] = 0;
+            } else {
+                tri[f * 3 + k] = u;
+                vertexFaces[u].push(f);
+            }
+        }
+        vertexFaces[v] = [];
+        return true;
+    };
+
+    // Only vertices whose neighbourhood changed can collapse where they could not before
+    const dirty = new Uint8Array(vertexCount).fill(1);
+    const locked = new Int32Array(vertexCount);
+    onProgress?.(0);
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        let collapsed = 0;
+        for (let v = 0; v < vertexCount; v++) {
+            if (!dirty[v] || locked[v] === pass + 1 || vertexFaces[v].length === 0) continue;
+            dirty[v] = 0;
+            const faces = liveFaces(v);
+            gatherNeighbours(v, faces);
+            const attempts = Math.min(neighbourCount, MAX_ATTEMPTS);
+            for (let i = 0; i < attempts; i++) {
+                if (collapse(v, neighbours[i], faces)) {
+                    // Leave the changed neighbourhood alone for the rest of the
+                    // pass, or one vertex keeps swallowing the next down a row,
+                    // and retry it in the next one
+                    for (let j = 0; j < neighbourCount; j++) {
+                        locked[neighbours[j]] = pass + 1;
+                        dirty[neighbours[j]] = 1;
+                    }
+                    collapsed++;
+                    break;
+                }
+            }
+        }
+        onProgress?.((pass + 1) / MAX_PASSES);
+        if (collapsed === 0) break;
+    }
+
+    // Compact the surviving faces and the vertices they use
+    let liveCount = 0;
+    for (let f = 0; f < faceCount; f++) liveCount += alive[f];
+    const remap = new Int32Array(vertexCount).fill(-1);
+    const indices = new Uint32Array(liveCount * 3);
+    let usedVertices = 0;
+    let corner = 0;
+    for (let f = 0; f < faceCount; f++) {
+        if (!alive[f]) continue;
+        for (let k = 0; k < 3; k++) {
+            const v = tri[f * 3 + k];
+            if (remap[v] < 0) remap[v] = usedVertices++;
+            indices[corner++] = remap[v];
+        }
+    }
+    const positions = new Float32Array(usedVertices * 3);
+    for (let v = 0; v < vertexCount; v++) {
+        if (remap[v] >= 0) positions.set(pos.subarray(v * 3, v * 3 + 3), remap[v] * 3);
+    }
+
+    const simplified = new THREE.BufferGeometry();
+    simplified.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    // Surviving vertices never move, so their per-vertex thickness still holds
+    const thickness = geometry.getAttribute('thickness');
+    if (thickness) {
+        const kept = new Float32Array(usedVertices);
+        for (let v = 0; v < vertexCount; v++) {
+            if (remap[v] >= 0) kept[remap[v]] = thickness.getX(v);
+        }
+        simplified.setAttribute('thickness', new THREE.BufferAttribute(kept, 1));
+    }
+    simplified.setIndex(new THREE.BufferAttribute(indices, 1));
+    simplified.computeVertexNormals();
+    onProgress?.(1);
+    return simplified;
+}
+
+// Unnormalized normal of the triangle a, b, c into `out`: its length is twice the area
+function faceNormal(pos: Float64Array, a: number, b: number, c: number, out: Float64Array) {
+    const ax = pos[a * 3], ay = pos[a * 3 + 1], az = pos[a * 3 + 2];
+    const e1x = pos[b * 3] - ax, e1y = pos[b * 3 + 1] - ay, e1z = pos[b * 3 + 2] - az;
+    const e2x = pos[c * 3] - ax, e2y = pos[c * 3 + 1] - ay, e2z = pos[c * 3 + 2] - az;
+    out[0] = e1y * e2z - e1z * e2y;
+    out[1] = e1z * e2x - e1x * e2z;
+    out[2] = e1x * e2y - e1y * e2x;
+}
+
+function growInt(array: Int32Array<ArrayBuffer>): Int32Array<ArrayBuffer> {
+    const grown = new Int32Array(array.length * 2);
+    grown.set(array);
+    return grown;
+}
+
+function growFloat(array: Float64Array<ArrayBuffer>): Float64Array<ArrayBuffer> {
+    const grown = new Float64Array(array.length * 2);
+    grown.set(array);
+    return grown;
+}
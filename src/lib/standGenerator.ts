@@ -1,128 +1,190 @@
 import * as THREE from 'three';
-import { STLExporter } from 'three-stdlib';
+import type { ProcessingOptions, StandSettings } from './types';
+import { DEFAULT_OPTIONS } from './types';
+import { exportStl, printThicknessMm } from './mesh';
+
+const FLOOR_MM = 3; // Thickness of the floor under the lithophane
+const FRONT_MM = 14; // Depth of the stand in front of the slot
+const WALL_MM = 3; // Back wall of the light box's LED channel
+const MIN_WIDTH_MM = 20;
+
+interface StandProfile {
+    points: THREE.Vector2[]; // Side profile: x runs front to back, y up
+    slotCenterX: number; // Middle of the slot at floor level
+}
 
-export async function generateStand(thicknessMm: number): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-        try {
-            // Stand Parameters
-            const tolerance = 2.1; // Extra space for fit
-            const slotWidth = thicknessMm + tolerance;
-            const floorY = 3; // Thickness of the floor under the lithophane
-            const tiltAngle = 10 * (Math.PI / 180); // 10 degrees tilt back
-
-            const standWidth = 60; // Total width of the stand
-            const totalDepth = 40; // Total depth (front-to-back)
-            const backSupportHeight = 20; // Height of the back support
-            const frontLipHeight = 8; // Height of the front lip
-
-            // Calculate trigonometry values
-            const tanTilt = Math.tan(tiltAngle);
-            const cosTilt = Math.cos(tiltAngle);
-
-            // Define the slot position
-            // We want the lithophane's center of mass to be roughly centered over the base for stability.
-            // Let's anchor the back-bottom corner of the slot on the "floor" of the stand.
-            const backSlotXAtFloor = 22;
-
-            // Calculate relative X coordinates based on Y height (x = y * tan(theta))
-            // x = x_base + (y - y_base) * tan(theta)
-            const getBackWallX = (y: number) => backSlotXAtFloor + (y - floorY) * tanTilt;
-
-            // The front wall is parallel to the back wall, separated by `slotWidth` / cos(theta) along horizontal
-            const horizontalGap = slotWidth / cosTilt;
-            const frontSlotXAtFloor = backSlotXAtFloor - horizontalGap;
-
-            const getFrontWallX = (y: number) => frontSlotXAtFloor + (y - floorY) * tanTilt;
-
-            // Create the side profile shape
-            const shape = new THREE.Shape();
-
-            // 1. Bottom-Front Corner
-            shape.moveTo(0, 0);
-
-            // 2. Bottom-Back Corner
-            shape.lineTo(totalDepth, 0);
-
-            // 3. Top-Back Corner
-            shape.lineTo(totalDepth, backSupportHeight);
-
-            // 4. Back Wall Top (Inner edge of the slot, back side)
-            // We connect from the outer back block to the slot edge
-            const pBackTopX = getBackWallX(backSupportHeight);
-            shape.lineTo(pBackTopX + 2, backSupportHeight); // Add a 2mm flat top thickness
-            shape.lineTo(pBackTopX, backSupportHeight);
-
-            // 5. Back Wall Bottom (Bottom of slot, back corner)
-            shape.lineTo(backSlotXAtFloor, floorY);
-
-            // 6. Front Wall Bottom (Bottom of slot, front corner)
-            shape.lineTo(frontSlotXAtFloor, floorY);
-
-            // 7. Front Wall Top (Top of lip)
-            const pFrontTopX = getFrontWallX(frontLipHeight);
-            shape.lineTo(pFrontTopX, frontLipHeight);
-
-            // 8. Front Face Top (Outer edge of lip)
-            // Create a small flat top for the lip
-            shape.lineTo(pFrontTopX - 2, frontLipHeight);
-
-            // 9. Slope down to front
-            // Connect to a low point at the front to define the nose
-            shape.lineTo(0, 2);
-
-            // Close shape
-            shape.lineTo(0, 0);
-
-            // Extrude options
-            const extrudeSettings = {
-                steps: 1,
-                depth: standWidth,
-                bevelEnabled: true,
-                bevelThickness: 1,
-                bevelSize: 1,
-                bevelSegments: 2
-            };
-
-            const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-
-            // Center the geometry
-            geometry.center();
-
-            // Rotate to sit flat on the printer bed
-            // Current orientation:
-            // Shape X = Depth (Front-to-Back)
-            // Shape Y = Height (Up-Down)
-            // Extrude Z = Width (Left-to-Right)
-
-            // Desired STL orientation (Z-up):
-            // We want the floor (Shape Y=0) to be at World Z=0.
-            // We want Extrude Z (Width) to be World X?
-            // We want Shape X (Depth) to be World Y?
-
-            // Rotate X by 90 degrees?
-            // (x, y, z) -> (x, -z, y)
-            // Shape X -> World X
-            // Shape Y -> World Z (Up)
-            // Extrude Z -> World -Y (Width)
-
-            geometry.rotateX(-Math.PI / 2);
-
-            // Rotate Y by 90 to swap Z (Width) and X (Depth) to align with printer bed (X=Width, Y=Depth, Z=Height)
-            geometry.rotateY(Math.PI / 2);
-            geometry.rotateX(-Math.PI / 2);
-
-            // Compute bounds and set minZ to 0
-            geometry.computeBoundingBox();
-            if (geometry.boundingBox) {
-                const minZ = geometry.boundingBox.min.z;
-                geometry.translate(0, 0, -minZ);
-            }
+/**
+ * Stand geometry in printer orientation (Z-up, floor at Z=0, centered in X/Y),
+ * fitted to the print described by `options`. Arc prints get a curved slot
+ * following the arc; everything else a straight one, tilted back.
+ */
+export function buildStandGeometry(options: ProcessingOptions): THREE.BufferGeometry {
+    const stand = options.stand || DEFAULT_OPTIONS.stand!;
+    const thicknessMm = printThicknessMm(options);
+
+    const geometry = options.shape?.type === 'arc'
+        ? buildCurvedStand(options, stand, thicknessMm)
+        : buildStraightStand(options, stand, thicknessMm);
+
+    // Center in X/Y and set minZ to 0
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    geometry.translate(-(box.min.x + box.max.x) / 2, -(box.min.y + box.max.y) / 2, -box.min.z);
+    return geometry;
+}
 
-            const mesh = new THREE.Mesh(geometry);
-            const exporter = new STLExporter();
-            const stlResult = exporter.parse(mesh, { binary: true });
+/**
+ * Side profile of the stand: a front lip and a back support either side of
+ * the slot. The light box variant lowers the back of the slot to the front lip
+ * height and opens a channel behind it for an LED strip, closed by the back
+ * support.
+ */
+function standProfile(stand: StandSettings, thicknessMm: number, tiltDeg: number): StandProfile {
+    const slotWidth = thicknessMm + stand.toleranceMm;
+    const tiltAngle = tiltDeg * (Math.PI / 180);
+    const tanTilt = Math.tan(tiltAngle);
+    const frontLipHeight = Math.max(FLOOR_MM + 1, stand.frontLipMm);
+    const backSupportHeight = Math.max(FLOOR_MM + 1, stand.backSupportMm);
+
+    // The front wall is parallel to the back wall, separated by `slotWidth` / cos(theta) along horizontal
+    const frontSlotXAtFloor = FRONT_MM;
+    const backSlotXAtFloor = frontSlotXAtFloor + slotWidth / Math.cos(tiltAngle);
+
+    // Calculate relative X coordinates based on Y height (x = y * tan(theta))
+    const getFrontWallX = (y: number) => frontSlotXAtFloor + (y - FLOOR_MM) * tanTilt;
+    const getBackWallX = (y: number) => backSlotXAtFloor + (y - FLOOR_MM) * tanTilt;
+
+    const points: THREE.Vector2[] = [];
+    const add = (x: number, y: number) => points.push(new THREE.Vector2(x, y));
+
+    // Bottom-Front Corner
+    add(0, 0);
+
+    if (stand.lightBox) {
+        // Divider between slot and channel, as tall as the front lip
+        const dividerFrontX = getBackWallX(frontLipHeight);
+        const channelFrontX = dividerFrontX + 2;
+        const totalDepth = channelFrontX + stand.ledChannelMm + WALL_MM;
+
+        add(totalDepth, 0);
+        add(totalDepth, backSupportHeight);
+        add(totalDepth - WALL_MM, backSupportHeight);
+        // LED channel, running the full width so the cable can leave at either side
+        add(totalDepth - WALL_MM, FLOOR_MM);
+        add(channelFrontX, FLOOR_MM);
+        add(channelFrontX, frontLipHeight);
+        add(dividerFrontX, frontLipHeight);
+    } else {
+        const pBackTopX = getBackWallX(backSupportHeight);
+        const totalDepth = Math.max(40, pBackTopX + 15);
+
+        add(totalDepth, 0);
+        add(totalDepth, backSupportHeight);
+        // Back wall top, with a 2mm flat top thickness
+        add(pBackTopX + 2, backSupportHeight);
+        add(pBackTopX, backSupportHeight);
+    }
+
+    // Bottom of the slot, back then front corner
+    add(backSlotXAtFloor, FLOOR_MM);
+    add(frontSlotXAtFloor, FLOOR_MM);
+
+    // Front lip, with a small flat top
+    const pFrontTopX = getFrontWallX(frontLipHeight);
+    add(pFrontTopX, frontLipHeight);
+    add(pFrontTopX - 2, frontLipHeight);
+
+    // Slope down to a low point at the front to define the nose
+    add(0, 2);
+
+    return { points, slotCenterX: (frontSlotXAtFloor + backSlotXAtFloor) / 2 };
+}
+
+function buildStraightStand(options: ProcessingOptions, stand: StandSettings, thicknessMm: number): THREE.BufferGeometry {
+    const { points } = standProfile(stand, thicknessMm, stand.tiltDeg);
+    const standWidth = Math.max(MIN_WIDTH_MM, options.widthMm * stand.widthPercent / 100);
+
+    const extrudeSettings = {
+        steps: 1,
+        depth: standWidth,
+        bevelEnabled: true,
+        bevelThickness: 1,
+        bevelSize: 1,
+        bevelSegments: 2
+    };
+    const geometry = new THREE.ExtrudeGeometry(new THREE.Shape(points), extrudeSettings);
+
+    // Rotate to sit flat on the printer bed
+    // Current orientation:
+    // Shape X = Depth (Front-to-Back)
+    // Shape Y = Height (Up-Down)
+    // Extrude Z = Width (Left-to-Right)
+    // Cycle the axes onto the bed: X=Width, Y=Depth, Z=Height
+    geometry.applyMatrix4(new THREE.Matrix4().set(
+        0, 0, 1, 0,
+        1, 0, 0, 0,
+        0, 1, 0, 0,
+        0, 0, 0, 1
+    ));
+    return geometry;
+}
 
-            const blob = new Blob([stlResult as BlobPart], { type: 'application/octet-stream' });
+/**
+ * Sweeps the profile around the arc's axis, so the slot follows the arc. The
+ * print stands upright, with its image (outer) side at the front lip.
+ */
+function buildCurvedStand(options: ProcessingOptions, stand: StandSettings, thicknessMm: number): THREE.BufferGeometry {
+    const { points, slotCenterX } = standProfile(stand, thicknessMm, 0);
+
+    // Same radius as the arc in buildMesh: the wall runs from baseRadius outwards
+    const angleRad = (options.shape.angle * Math.PI) / 180;
+    const slotRadius = options.widthMm / angleRad + thicknessMm / 2;
+    // Leave a gap so the two ends never meet, even for a full circle
+    const sweep = Math.min(1.9 * Math.PI, angleRad * Math.max(stand.widthPercent, MIN_WIDTH_MM / options.widthMm * 100) / 100);
+
+    // Profile in (radius, height), front lip outside; kept counter-clockwise
+    const section = points.map((p) => new THREE.Vector2(Math.max(1, slotRadius + slotCenterX - p.x), p.y));
+    if (THREE.ShapeUtils.isClockWise(section)) section.reverse();
+
+    const segments = Math.max(8, Math.ceil(sweep / (Math.PI / 60)));
+    const n = section.length;
+    const vertices: number[] = [];
+    const indices: number[] = [];
+    for (let s = 0; s <= segments; s++) {
+        const theta = -sweep / 2 + (s / segments) * sweep;
+        for (const p of section) {
+            vertices.push(p.x * Math.sin(theta), -p.x * Math.cos(theta), p.y);
+        }
+    }
+
+    // Outside faces between neighbouring sections
+    for (let s = 0; s < segments; s++) {
+        for (let i = 0; i < n; i++) {
+            const a = s * n + i;
+            const b = s * n + (i + 1) % n;
+            indices.push(a, a + n, b, b, a + n, b + n);
+        }
+    }
+
+    // End caps
+    const last = segments * n;
+    for (const [i0, i1, i2] of THREE.ShapeUtils.triangulateShape(section, [])) {
+        indices.push(i0, i1, i2);
+        indices.push(last + i0, last + i2, last + i1);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+}
+
+export async function generateStand(options: ProcessingOptions): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        try {
+            const geometry = buildStandGeometry(options);
+            const blob = new Blob([exportStl(geometry)], { type: 'application/octet-stream' });
             resolve(blob);
 
         } catch (e) {
@@ -0,0 +1,406 @@
+import type { ProcessingOptions, TextFont, TextWeight } from './types';
+import { centreColumnExtent, parsePathData } from './outline';
+import type { Polygon } from './outline';
+
+export interface TextLayer {
+    coverage: Uint8Array; // 1 where a glyph stroke covers the pixel
+    plate: Uint8Array | null; // Caption only: the solid strip below the image the text sits on
+}
+
+// Single-stroke sans face as path data: caps are 6 units tall with the top at
+// y=0 and the baseline at y=6; lowercase letters rise to y=2 and descend to y=8.
+const SANS_GLYPHS: Record<string, string> = {
+    'A': 'M0 6 L2 0 L4 6 M0.7 4 H3.3',
+    'B': 'M0 6 V0 H2.5 Q4 0 4 1.5 Q4 3 2.5 3 H0 M2.5 3 Q4 3 4 4.5 Q4 6 2.5 6 H0',
+    'C': 'M4 1 Q3.5 0 2 0 Q0 0 0 3 Q0 6 2 6 Q3.5 6 4 5',
+    'D': 'M0 0 V6 H1.5 Q4 6 4 3 Q4 0 1.5 0 H0',
+    'E': 'M4 0 H0 V6 H4 M0 3 H3',
+    'F': 'M4 0 H0 V6 M0 3 H3',
+    'G': 'M4 1 Q3.5 0 2 0 Q0 0 0 3 Q0 6 2 6 Q4 6 4 4 V3.2 H2.2',
+    'H': 'M0 0 V6 M4 0 V6 M0 3 H4',
+    'I': 'M0 0 H2 M1 0 V6 M0 6 H2',
+    'J': 'M4 0 V4.2 Q4 6 2 6 Q0 6 0 4.2',
+    'K': 'M0 0 V6 M4 0 L0 3.8 M1.3 2.8 L4 6',
+    'L': 'M0 0 V6 H4',
+    'M': 'M0 6 V0 L2 3.5 L4 0 V6',
+    'N': 'M0 6 V0 L4 6 V0',
+    'O': 'M2 0 Q0 0 0 3 Q0 6 2 6 Q4 6 4 3 Q4 0 2 0',
+    'P': 'M0 6 V0 H2.5 Q4 0 4 1.6 Q4 3.2 2.5 3.2 H0',
+    'Q': 'M2 0 Q0 0 0 3 Q0 6 2 6 Q4 6 4 3 Q4 0 2 0 M2.6 4.4 L4 6',
+    'R': 'M0 6 V0 H2.5 Q4 0 4 1.6 Q4 3.2 2.5 3.2 H0 M2.2 3.2 L4 6',
+    'S': 'M4 0.8 Q3.4 0 2 0 Q0.2 0 0.2 1.5 Q0.2 2.7 2 3 Q3.8 3.3 3.8 4.5 Q3.8 6 2 6 Q0.6 6 0 5.2',
+    'T': 'M0 0 H4 M2 0 V6',
+    'U': 'M0 0 V4 Q0 6 2 6 Q4 6 4 4 V0',
+    'V': 'M0 0 L2 6 L4 0',
+    'W': 'M0 0 L1 6 L2 2.5 L3 6 L4 0',
+    'X': 'M0 0 L4 6 M4 0 L0 6',
+    'Y': 'M0 0 L2 3 L4 0 M2 3 V6',
+    'Z': 'M0 0 H4 L0 6 H4',
+    '0': 'M2 0 Q0 0 0 3 Q0 6 2 6 Q4 6 4 3 Q4 0 2 0 M3.5 1.2 L0.5 4.8',
+    '1': 'M0 1.2 L1.4 0 V6 M0 6 H2.8',
+    '2': 'M0.2 1.2 Q0.8 0 2 0 Q3.8 0 3.8 1.7 Q3.8 2.8 2.6 3.7 L0 6 H4',
+    '3': 'M0.2 0.8 Q0.8 0 2 0 Q3.8 0 3.8 1.5 Q3.8 3 2 3 Q4 3 4 4.5 Q4 6 2 6 Q0.7 6 0 5.1 M1.4 3 H2',
+    '4': 'M3 6 V0 L0 4.2 H4',
+    '5': 'M3.8 0 H0.4 L0.2 2.8 Q0.8 2.4 2 2.4 Q4 2.4 4 4.2 Q4 6 2 6 Q0.7 6 0 5.2',
+    '6': 'M3.6 0.6 Q3 0 2 0 Q0 0 0 3.5 V4 Q0 6 2 6 Q4 6 4 4.1 Q4 2.4 2 2.4 Q0.6 2.4 0 3.6',
+    '7': 'M0 0 H4 L1.5 6',
+    '8': 'M2 3 Q0.3 3 0.3 1.5 Q0.3 0 2 0 Q3.7 0 3.7 1.5 Q3.7 3 2 3 Q0 3 0 4.5 Q0 6 2 6 Q4 6 4 4.5 Q4 3 2 3',
+    'a': 'M3 2 V6 M3 4 Q3 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q3 6 3 4',
+    'b': 'M0 0 V6 M0 4 Q0 2 1.5 2 Q3 2 3 4 Q3 6 1.5 6 Q0 6 0 4',
+    'c': 'M3 2.6 Q2.5 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q2.5 6 3 5.4',
+    'd': 'M3 0 V6 M3 4 Q3 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q3 6 3 4',
+    'e': 'M0 4 H3 Q3 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q2.5 6 3 5.4',
+    'f': 'M2.4 0.2 Q2 0 1.6 0 Q0.8 0 0.8 1 V6 M0 2 H2.2',
+    'g': 'M3 2 V6.6 Q3 8 1.5 8 Q0.6 8 0.2 7.4 M3 4 Q3 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q3 6 3 4',
+    'h': 'M0 0 V6 M0 3.8 Q0 2 1.5 2 Q3 2 3 3.8 V6',
+    'i': 'M0 2 V6 M0 0.4 V0.7',
+    'j': 'M1 2 V7 Q1 8 0 8 M1 0.4 V0.7',
+    'k': 'M0 0 V6 M3 2 L0 4.4 M1.1 3.6 L3 6',
+    'l': 'M0 0 V6',
+    'm': 'M0 2 V6 M0 3.5 Q0 2 1.2 2 Q2.4 2 2.4 3.5 V6 M2.4 3.5 Q2.4 2 3.6 2 Q4.8 2 4.8 3.5 V6',
+    'n': 'M0 2 V6 M0 3.8 Q0 2 1.5 2 Q3 2 3 3.8 V6',
+    'o': 'M1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q3 6 3 4 Q3 2 1.5 2',
+    'p': 'M0 2 V8 M0 4 Q0 2 1.5 2 Q3 2 3 4 Q3 6 1.5 6 Q0 6 0 4',
+    'q': 'M3 2 V8 M3 4 Q3 2 1.5 2 Q0 2 0 4 Q0 6 1.5 6 Q3 6 3 4',
+    'r': 'M0 2 V6 M0 3.8 Q0 2 2.2 2',
+    's': 'M2.8 2.5 Q2.4 2 1.4 2 Q0.2 2 0.2 3 Q0.2 3.8 1.5 4 Q2.8 4.2 2.8 5 Q2.8 6 1.4 6 Q0.4 6 0 5.4',
+    't': 'M0.8 0.6 V5 Q0.8 6 1.8 6 Q2.2 6 2.4 5.8 M0 2 H2.2',
+    'u': 'M0 2 V4.2 Q0 6 1.5 6 Q3 6 3 4.2 M3 2 V6',
+    'v': 'M0 2 L1.5 6 L3 2',
+    'w': 'M0 2 L0.9 6 L2 3 L3.1 6 L4 2',
+    'x': 'M0 2 L3 6 M3 2 L0 6',
+    'y': 'M0 2 L1.5 6 M3 2 L1.2 7.2 Q0.9 8 0.2 8',
+    'z': 'M0 2 H3 L0 6 H3',
+    '9': 'M0.4 5.4 Q1 6 2 6 Q4 6 4 2.5 V2 Q4 0 2 0 Q0 0 0 1.9 Q0 3.6 2 3.6 Q3.4 3.6 4 2.4',
+    '.': 'M0 5.7 V6',
+    ',': 'M0.5 5.6 L0 7',
+    ':': 'M0 1.8 V2.1 M0 5.7 V6',
+    '!': 'M0 0 V4.2 M0 5.7 V6',
+    '?': 'M0.2 1.2 Q0.8 0 2 0 Q3.8 0 3.8 1.6 Q3.8 2.6 2 3.3 V4.2 M2 5.7 V6',
+    '\'': 'M0 0 V1.6',
+    '"': 'M0 0 V1.6 M1.2 0 V1.6',
+    '-': 'M0 3.5 H2.4',
+    '+': 'M0 3.2 H3 M1.5 1.7 V4.7',
+    '/': 'M3.2 0 L0 6',
+    '&': 'M4 6 L1 2 Q0.4 1.2 0.8 0.5 Q1.3 0 2 0 Q2.8 0 3 0.8 Q3.2 1.8 1.6 2.8 Q0 3.8 0 4.8 Q0 6 1.6 6 Q2.8 6 4 3.8',
+    '(': 'M1.6 0 Q0 1.5 0 3 Q0 4.5 1.6 6',
+    ')': 'M0 0 Q1.6 1.5 1.6 3 Q1.6 4.5 0 6',
+    '♥': 'M2 6 L0.3 3.2 Q-0.4 1.8 0.4 0.8 Q1.4 -0.2 2 1.2 Q2.6 -0.2 3.6 0.8 Q4.4 1.8 3.7 3.2 L2 6'
+};
+
+// Dot-matrix face: rows of cells one unit apart, '#' lit. Caps take rows 0-6
+// like the sans face, descenders rows 7 and 8; see pixelStrokes.
+const PIXEL_GLYPHS: Record<string, string[]> = {
+    'A': ['.###.', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+    'B': ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+    'C': ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+    'D': ['####.', '#...#', '#...#', '#...#', '#...#', '#...#', '####.'],
+    'E': ['#####', '#....', '#....', '####.', '#....', '#....', '#####'],
+    'F': ['#####', '#....', '#....', '####.', '#....', '#....', '#....'],
+    'G': ['.###.', '#...#', '#....', '#.###', '#...#', '#...#', '.###.'],
+    'H': ['#...#', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+    'I': ['###', '.#.', '.#.', '.#.', '.#.', '.#.', '###'],
+    'J': ['..###', '...#.', '...#.', '...#.', '#..#.', '#..#.', '.##..'],
+    'K': ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+    'L': ['#....', '#....', '#....', '#....', '#....', '#....', '#####'],
+    'M': ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+    'N': ['#...#', '#...#', '##..#', '#.#.#', '#..##', '#...#', '#...#'],
+    'O': ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+    'P': ['####.', '#...#', '#...#', '####.', '#....', '#....', '#....'],
+    'Q': ['.###.', '#...#', '#...#', '#...#', '#.#.#', '#..#.', '.##.#'],
+    'R': ['####.', '#...#', '#...#', '####.', '#.#..', '#..#.', '#...#'],
+    'S': ['.####', '#....', '#....', '.###.', '....#', '....#', '####.'],
+    'T': ['#####', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+    'U': ['#...#', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+    'V': ['#...#', '#...#', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+    'W': ['#...#', '#...#', '#...#', '#.#.#', '#.#.#', '#.#.#', '.#.#.'],
+    'X': ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+    'Y': ['#...#', '#...#', '.#.#.', '..#..', '..#..', '..#..', '..#..'],
+    'Z': ['#####', '....#', '...#.', '..#..', '.#...', '#....', '#####'],
+    'a': ['.....', '.....', '.###.', '....#', '.####', '#...#', '.####'],
+    'b': ['#....', '#....', '#.##.', '##..#', '#...#', '#...#', '####.'],
+    'c': ['.....', '.....', '.###.', '#....', '#....', '#...#', '.###.'],
+    'd': ['....#', '....#', '.##.#', '#..##', '#...#', '#...#', '.####'],
+    'e': ['.....', '.....', '.###.', '#...#', '#####', '#....', '.###.'],
+    'f': ['..##.', '.#..#', '.#...', '###..', '.#...', '.#...', '.#...'],
+    'g': ['.....', '.....', '.####', '#...#', '#...#', '#...#', '.####', '....#', '.###.'],
+    'h': ['#....', '#....', '#.##.', '##..#', '#...#', '#...#', '#...#'],
+    'i': ['.#.', '...', '##.', '.#.', '.#.', '.#.', '###'],
+    'j': ['...#', '....', '..##', '...#', '...#', '...#', '...#', '#..#', '.##.'],
+    'k': ['#....', '#....', '#..#.', '#.#..', '##...', '#.#..', '#..#.'],
+    'l': ['##.', '.#.', '.#.', '.#.', '.#.', '.#.', '###'],
+    'm': ['.....', '.....', '##.#.', '#.#.#', '#.#.#', '#...#', '#...#'],
+    'n': ['.....', '.....', '#.##.', '##..#', '#...#', '#...#', '#...#'],
+    'o': ['.....', '.....', '.###.', '#...#', '#...#', '#...#', '.###.'],
+    'p': ['.....', '.....', '####.', '#...#', '#...#', '#...#', '####.', '#....', '#....'],
+    'q': ['.....', '.....', '.####', '#...#', '#...#', '#...#', '.####', '....#', '....#'],
+    'r': ['.....', '.....', '#.##.', '##..#', '#....', '#....', '#....'],
+    's': ['.....', '.....', '.####', '#....', '.###.', '....#', '####.'],
+    't': ['.#...', '.#...', '####.', '.#...', '.#...', '.#..#', '..##.'],
+    'u': ['.....', '.....', '#...#', '#...#', '#...#', '#..##', '.##.#'],
+    'v': ['.....', '.....', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+    'w': ['.....', '.....', '#...#', '#...#', '#.#.#', '#.#.#', '.#.#.'],
+    'x': ['.....', '.....', '#...#', '.#.#.', '..#..', '.#.#.', '#...#'],
+    'y': ['.....', '.....', '#...#', '#...#', '#...#', '#...#', '.####', '....#', '.###.'],
+    'z': ['.....', '.....', '#####', '...#.', '..#..', '.#...', '#####'],
+    '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+    '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+    '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+    '3': ['#####', '...#.', '..#..', '...#.', '....#', '#...#', '.###.'],
+    '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+    '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+    '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+    '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+    '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+    '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+    '.': ['.', '.', '.', '.', '.', '.', '#'],
+    ',': ['..', '..', '..', '..', '..', '.#', '.#', '#.'],
+    ':': ['.', '.', '#', '.', '.', '.', '#'],
+    '!': ['#', '#', '#', '#', '#', '.', '#'],
+    '?': ['.###.', '#...#', '....#', '...#.', '..#..', '.....', '..#..'],
+    '\'': ['#', '#'],
+    '"': ['#.#', '#.#'],
+    '-': ['....', '....', '....', '####'],
+    '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..'],
+    '/': ['....#', '....#', '...#.', '..#..', '.#...', '#....', '#....'],
+    '&': ['.##..', '#..#.', '#.#..', '.#...', '#.#.#', '#..#.', '.##.#'],
+    '(': ['..#', '.#.', '#..', '#..', '#..', '.#.', '..#'],
+    ')': ['#..', '.#.', '..#', '..#', '..#', '.#.', '#..'],
+    '♥': ['.....', '.#.#.', '#####', '#####', '#####', '.###.', '..#..']
+};
+
+const CAP_HEIGHT = 6;
+const SPACE_ADVANCE = 3;
+const LETTER_GAP = 1.2; // Between glyphs, on top of the stroke width
+
+// Stroke width in font units for each weight
+const STROKE_WIDTH: Record<TextWeight, number> = {
+    light: 0.6,
+    regular: 0.9,
+    bold: 1.3
+};
+
+interface Glyph {
+    strokes: Polygon[];
+    minX: number;
+    maxX: number;
+}
+
+const glyphCache = new Map<string, Glyph>();
+
+function glyphFor(char: string, font: TextFont): Glyph | null {
+    const key = `${font}:${char}`;
+    let glyph = glyphCache.get(key);
+    if (!glyph) {
+        let strokes: Polygon[];
+        if (font === 'pixel') {
+            if (!(char in PIXEL_GLYPHS)) return null;
+            strokes = pixelStrokes(PIXEL_GLYPHS[char]);
+        } else {
+            if (!(char in SANS_GLYPHS)) return null;
+            strokes = parsePathData(SANS_GLYPHS[char], true);
+        }
+        const xs = strokes.flat().map(([x]) => x);
+        glyph = { strokes, minX: Math.min(...xs), maxX: Math.max(...xs) };
+        glyphCache.set(key, glyph);
+    }
+    return glyph;
+}
+
+// Strokes through the lit cells of a dot-matrix glyph: runs along the rows
+// and columns, diagonal steps between cells that only touch at a corner, and
+// a dot for a cell on its own
+function pixelStrokes(rows: string[]): Polygon[] {
+    const lit = (x: number, y: number) => rows[y]?.[x] === '#';
+    const strokes: Polygon[] = [];
+    rows.forEach((row, y) => {
+        for (let x = 0; x < row.length; x++) {
+            if (!lit(x, y)) continue;
+            if (lit(x + 1, y) && !lit(x - 1, y)) {
+                let end = x + 1;
+                while (lit(end + 1, y)) end++;
+                strokes.push([[x, y], [end, y]]);
+            }
+            if (lit(x, y + 1) && !lit(x, y - 1)) {
+                let end = y + 1;
+                while (lit(x, end + 1)) end++;
+                strokes.push([[x, y], [x, end]]);
+            }
+            let alone = true;
+            for (const dx of [-1, 0, 1]) {
+                if (dx !== 0 && lit(x + dx, y + 1) && !lit(x + dx, y) && !lit(x, y + 1)) strokes.push([[x, y], [x + dx, y + 1]]);
+                for (const dy of [-1, 0, 1]) {
+                    if ((dx !== 0 || dy !== 0) && lit(x + dx, y + dy)) alone = false;
+                }
+            }
+            if (alone) strokes.push([[x, y], [x, y]]);
+        }
+    });
+    return strokes;
+}
+
+/** Characters of `content` the font cannot draw (they are left blank). */
+export function unsupportedCharacters(content: string, font: TextFont): string[] {
+    const missing = new Set<string>();
+    for (const char of content) {
+        if (char.trim() !== '' && !glyphFor(char, font)) missing.add(char);
+    }
+    return [...missing];
+}
+
+/**
+ * Rows the caption strip adds below the image: room for the text with a
+ * margin on either side, plus the border band that runs along the bottom of
+ * the print. Zero when there is no caption to place; only rectangular prints
+ * (not the `circle` shape or custom outlines) take one.
+ */
+export function captionStripRows(options: ProcessingOptions): number {
+    const text = options.text;
+    if (!text || !text.enabled || text.placement !== 'caption' || text.content.trim() === '') return 0;
+    const shape = options.shape?.type;
+    if (shape === 'circle' || shape === 'outline') return 0;
+    const { sizePx, bandPx, marginPx } = textMetrics(options);
+    return Math.ceil(bandPx + sizePx + 2 * marginPx);
+}
+
+/**
+ * Rasterizes the text of `options.text` at the image resolution. Straight
+ * text is centred above the bottom edge of the print; on the `circle` shape
+ * it follows the arc of the rim instead. The 'border' placement sits in the
+ * middle of the border band, 'caption' in the strip of `captionStripRows`
+ * below the image and 'back' just inside the band. Back text is mirrored so
+ * it reads correctly from behind. `inside` is the mask from
+ * `buildOutlineMask` for the same size and options. Returns null when there
+ * is no text to place.
+ */
+export function buildTextLayer(width: number, height: number, options: ProcessingOptions, inside: Uint8Array | null): TextLayer | null {
+    const text = options.text;
+    if (!text || !text.enabled || text.content.trim() === '') return null;
+    const hasBorder = !!options.border && options.border.type !== 'none';
+    if (text.placement === 'border' && !hasBorder) return null;
+    const stripRows = captionStripRows(options);
+    if (text.placement === 'caption' && stripRows === 0) return null;
+
+    const { sizePx, bandPx, marginPx } = textMetrics(options);
+
+    // Distance from the outer edge of the print to the centre line of the text
+    const inset = text.placement === 'border' ? bandPx / 2 : bandPx + marginPx + sizePx / 2;
+    const mirror = text.placement === 'back' ? -1 : 1;
+
+    // Text coordinates: u along the line, v across it (down the glyphs)
+    let toPixel: (u: number, v: number) => [number, number];
+    if (options.shape?.type === 'circle') {
+        // Must match the circle in buildOutlineMask; its mesh edge runs one pixel inside
+        const cx = width / 2;
+        const cy = height / 2;
+        const radius = Math.min(width, height) / 2 - 1 - inset;
+        toPixel = (u, v) => {
+            const angle = mirror * u / radius;
+            const r = radius + v;
+            return [cx + r * Math.sin(angle), cy + r * Math.cos(angle)];
+        };
+    } else {
+        const cx = width / 2;
+        const cy = centreColumnExtent(inside, width, height).bottom - inset;
+        toPixel = (u, v) => [cx + mirror * u, cy + v];
+    }
+
+    const coverage = new Uint8Array(width * height);
+    stampText(coverage, width, height, text.content, sizePx, text.weight, text.font ?? 'sans', toPixel);
+
+    // The whole strip is plate; the border takes over its outer band
+    let plate: Uint8Array | null = null;
+    if (text.placement === 'caption') {
+        plate = new Uint8Array(width * height);
+        plate.fill(1, (height - stripRows) * width);
+    }
+
+    return { coverage, plate };
+}
+
+// Text height, border band and the margin around caption text, in pixels
+function textMetrics(options: ProcessingOptions): { sizePx: number; bandPx: number; marginPx: number } {
+    const pixelSizeMm = options.pixelSize || 0.15;
+    const sizePx = options.text!.sizeMm / pixelSizeMm;
+    const hasBorder = !!options.border && options.border.type !== 'none';
+    const bandPx = hasBorder ? options.border.widthMm / pixelSizeMm : 0;
+    return { sizePx, bandPx, marginPx: sizePx * 0.4 };
+}
+
+// Lays the glyphs of `content` out along a line in font units, from 0
+function layoutText(content: string, weight: TextWeight, font: TextFont): { placed: { glyph: Glyph; x: number }[]; length: number } {
+    const stroke = STROKE_WIDTH[weight] ?? STROKE_WIDTH.regular;
+    const placed: { glyph: Glyph; x: number }[] = [];
+    let pen = 0;
+    for (const char of content) {
+        const glyph = glyphFor(char, font);
+        if (!glyph) {
+            pen += SPACE_ADVANCE;
+            continue;
+        }
+        placed.push({ glyph, x: pen - glyph.minX });
+        pen += glyph.maxX - glyph.minX + LETTER_GAP + stroke;
+    }
+    return { placed, length: Math.max(0, pen - LETTER_GAP - stroke) };
+}
+
+/** Length in pixels of `content` set `sizePx` tall. */
+export function textLengthPx(content: string, sizePx: number, weight: TextWeight, font: TextFont): number {
+    return layoutText(content, weight, font).length * sizePx / CAP_HEIGHT;
+}
+
+/**
+ * Stamps `content` in `font`, `sizePx` tall, into `coverage`
+ * (1 under every stroke). `toPixel` places text coordinates: u along the
+ * line, centred on 0, and v across it, 0 halfway down the capitals.
+ */
+export function stampText(
+    coverage: Uint8Array,
+    width: number,
+    height: number,
+    content: string,
+    sizePx: number,
+    weight: TextWeight,
+    font: TextFont,
+    toPixel: (u: number, v: number) => [number, number]
+) {
+    const { placed, length } = layoutText(content, weight, font);
+    const scale = sizePx / CAP_HEIGHT; // Pixels per font unit
+    const stroke = STROKE_WIDTH[weight] ?? STROKE_WIDTH.regular;
+    const startPx = -length * scale / 2;
+
+    // Stamp round pens along every stroke, half a pixel apart
+    const penRadius = Math.max(0.75, stroke * scale / 2);
+    const stamp = (x: number, y: number) => {
+        const x0 = Math.max(0, Math.ceil(x - penRadius)), x1 = Math.min(width - 1, Math.floor(x + penRadius));
+        const y0 = Math.max(0, Math.ceil(y - penRadius)), y1 = Math.min(height - 1, Math.floor(y + penRadius));
+        for (let py = y0; py <= y1; py++) {
+            for (let px = x0; px <= x1; px++) {
+                if ((px - x) * (px - x) + (py - y) * (py - y) <= penRadius * penRadius) coverage[py * width + px] = 1;
+            }
+        }
+    };
+    for (const { glyph, x } of placed) {
+        for (const polyline of glyph.strokes) {
+            for (let k = 0; k < polyline.length - 1; k++) {
+                const [ax, ay] = polyline[k];
+                const [bx, by] = polyline[k + 1];
+                const steps = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) * scale * 2));
+                for (let s = 0; s <= steps; s++) {
+                    const t = s / steps;
+                    const u = startPx + (x + ax + (bx - ax) * t) * scale;
+                    const v = (ay + (by - ay) * t - CAP_HEIGHT / 2) * scale;
+                    stamp(...toPixel(u, v));
+                }
+            }
+        }
+    }
+}
+
+/** Depth value of text raised from or engraved into a surface at `depth`. */
+export function textReliefDepth(depth: number, options: ProcessingOptions): number {
+    const text = options.text!;
+    const offset = text.depthMm / (options.maxHeight - options.minHeight);
+    // Engraving stops at the minimum thickness
+    return text.engraved ? Math.max(Math.min(depth, 0), depth - offset) : depth + offset;
+}
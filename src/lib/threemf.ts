@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { zipSync, strToU8 } from 'fflate';
+
+export interface ThreeMFPart {
+    name: string;
+    geometry: THREE.BufferGeometry;
+}
+
+export interface ThreeMFObject {
+    name: string;
+    // One part is written as a plain mesh object; several become components of
+    // one object, which slicers import as a multi-part object (one filament per part).
+    parts: ThreeMFPart[];
+}
+
+export interface ThreeMFMetadata {
+    title: string;
+    sourceImage?: string;
+    options?: unknown; // Serialized as JSON
+}
+
+const CORE_NS = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const APP_NS = 'https://github.com/apeckdev/lithophane-3d-converter';
+
+/**
+ * Writes a 3MF package (units: millimetres) with one build item per object.
+ * Geometry is expected in printer coordinates (Z-up).
+ */
+export function write3MF(objects: ThreeMFObject[], metadata: ThreeMFMetadata): Uint8Array {
+    const resources: string[] = [];
+    const items: string[] = [];
+    let nextId = 1;
+
+    for (const object of objects) {
+        const parts = object.parts.filter((p) => triangleCorners(p.geometry) > 0);
+        if (parts.length === 0) continue;
+
+        if (parts.length === 1) {
+            const id = nextId++;
+            resources.push(meshObject(id, object.name, parts[0].geometry));
+            items.push(`<item objectid="${id}"/>`);
+            continue;
+        }
+
+        const componentIds = parts.map((part) => {
+            const id = nextId++;
+            resources.push(meshObject(id, part.name, part.geometry));
+            return id;
+        });
+        const id = nextId++;
+        resources.push(
+            `<object id="${id}" name="${escapeXml(object.name)}" type="model"><components>` +
+            componentIds.map((c) => `<component objectid="${c}"/>`).join('') +
+            `</components></object>`
+        );
+        items.push(`<item objectid="${id}"/>`);
+    }
+
+    const meta: [string, string][] = [
+        ['Title', metadata.title],
+        ['Application', 'Lithophane 3D Converter'],
+        ['CreationDate', new Date().toISOString().slice(0, 10)]
+    ];
+    if (metadata.sourceImage) meta.push(['litho:SourceImage', metadata.sourceImage]);
+    if (metadata.options !== undefined) meta.push(['litho:ProcessingOptions', JSON.stringify(metadata.options)]);
+
+    const model =
+        `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NS}" xmlns:litho="${APP_NS}">\n` +
+        meta.map(([name, value]) => `<metadata name="${name}">${escapeXml(value)}</metadata>\n`).join('') +
+        `<resources>\n${resources.join('\n')}\n</resources>\n` +
+        `<build>\n${items.join('\n')}\n</build>\n` +
+        `</model>\n`;
+
+    return zipSync({
+        '[Content_Types].xml': strToU8(
+            `<?xml version="1.0" encoding="UTF-8"?>\n` +
+            `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+            `<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>` +
+            `</Types>`
+        ),
+        '_rels/.rels': strToU8(
+            `<?xml version="1.0" encoding="UTF-8"?>\n` +
+            `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            `<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>` +
+            `</Relationships>`
+        ),
+        '3D/3dmodel.model': strToU8(model)
+    });
+}
+
+// Serializes a geometry, dropping vertices no triangle references (the
+// lithophane builder keeps vertices for cut-away pixels). Non-indexed geometry
+// such as the extruded stand is welded by position so the mesh stays closed.
+function meshObject(id: number, name: string, geometry: THREE.BufferGeometry): string {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const corner = (i: number) => index ? index.getX(i) : i;
+    const remap = new Int32Array(position.count).fill(-1);
+    const welded = new Map<string, number>();
+    const vertices: string[] = [];
+    const triangles: string[] = [];
+
+    const vertexId = (i: number) => {
+        if (remap[i] === -1) {
+            const tag = `<vertex x="${fmt(position.getX(i))}" y="${fmt(position.getY(i))}" z="${fmt(position.getZ(i))}"/>`;
+            const existing = index ? undefined : welded.get(tag);
+            if (existing !== undefined) {
+                remap[i] = existing;
+            } else {
+                remap[i] = vertices.length;
+                vertices.push(tag);
+                if (!index) welded.set(tag, remap[i]);
+            }
+        }
+        return remap[i];
+    };
+
+    for (let t = 0; t < triangleCorners(geometry); t += 3) {
+        const a = vertexId(corner(t));
+        const b = vertexId(corner(t + 1));
+        const c = vertexId(corner(t + 2));
+        if (a === b || b === c || c === a) continue; // Collapsed by welding
+        triangles.push(`<triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+    }
+
+    return `<object id="${id}" name="${escapeXml(name)}" type="model"><mesh>` +
+        `<vertices>${vertices.join('')}</vertices>` +
+        `<triangles>${triangles.join('')}</triangles>` +
+        `</mesh></object>`;
+}
+
+function triangleCorners(geometry: THREE.BufferGeometry): number {
+    return geometry.getIndex()?.count ?? geometry.getAttribute('position')?.count ?? 0;
+}
+
+function fmt(v: number): string {
+    return String(Math.round(v * 1e4) / 1e4);
+}
+
+function escapeXml(s: string): string {
+    return s
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,129 @@
+import type { ProcessingOptions } from './types';
+import { luminance } from './heightmap';
+
+// Layer boundaries are gray values (0-255): a pixel lands in the layer given by
+// how many boundaries lie at or below its gray, so `levels` layers have
+// `levels - 1` ascending boundaries.
+
+/** Pixel count of each 0-255 gray value. */
+export function grayHistogram(data: Uint8ClampedArray): number[] {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[Math.min(255, Math.floor(luminance(data[i], data[i + 1], data[i + 2])))]++;
+    }
+    return histogram;
+}
+
+/** Boundaries halfway between evenly spaced levels, which is what `quantizeGray` rounds to. */
+export function evenThresholds(levels: number): number[] {
+    return Array.from({ length: Math.max(0, levels - 1) }, (_, k) => ((k + 0.5) * 255) / (levels - 1));
+}
+
+/**
+ * Multi-level Otsu: the boundaries that maximise the variance between the
+ * layers' mean grays, found exactly by dynamic programming over the histogram.
+ */
+export function otsuThresholds(histogram: number[], levels: number): number[] {
+    if (levels < 2) return [];
+    const bins = histogram.length;
+    // Prefix sums of counts and of gray-weighted counts
+    const count = new Float64Array(bins + 1);
+    const sum = new Float64Array(bins + 1);
+    for (let g = 0; g < bins; g++) {
+        count[g + 1] = count[g] + histogram[g];
+        sum[g + 1] = sum[g] + histogram[g] * g;
+    }
+    // Between-class term of the bins [a, b)
+    const score = (a: number, b: number) => {
+        const w = count[b] - count[a];
+        const s = sum[b] - sum[a];
+        return w > 0 ? (s * s) / w : 0;
+    };
+
+    // best[k][b]: highest score of k + 1 layers covering bins [0, b); every layer gets at least one bin
+    const best = Array.from({ length: levels }, () => new Float64Array(bins + 1).fill(-Infinity));
+    const split = Array.from({ length: levels }, () => new Int32Array(bins + 1));
+    for (let b = 1; b <= bins; b++) best[0][b] = score(0, b);
+    for (let k = 1; k < levels; k++) {
+        for (let b = k + 1; b <= bins; b++) {
+            for (let a = k; a < b; a++) {
+                const value = best[k - 1][a] + score(a, b);
+                if (value > best[k][b]) {
+                    best[k][b] = value;
+                    split[k][b] = a;
+                }
+            }
+        }
+    }
+
+    const thresholds: number[] = [];
+    for (let k = levels - 1, b = bins; k > 0; k--) {
+        b = split[k][b];
+        thresholds.unshift(b);
+    }
+    return thresholds;
+}
+
+/**
+ * Histogram equalization: boundaries at the quantiles of the gray values, so
+ * each layer holds about the same number of pixels.
+ */
+export function equalizedThresholds(histogram: number[], levels: number): number[] {
+    const total = histogram.reduce((a, b) => a + b, 0);
+    const thresholds: number[] = [];
+    let cumulative = 0;
+    let g = 0;
+    for (let k = 1; k < levels; k++) {
+        while (g < 255 && cumulative + histogram[g] <= (k / levels) * total) cumulative += histogram[g++];
+        // Strictly ascending, with room for the remaining boundaries
+        const lowest = thresholds.length > 0 ? thresholds[thresholds.length - 1] + 1 : 1;
+        thresholds.push(Math.min(256 - levels + k, Math.max(lowest, g)));
+    }
+    return thresholds;
+}
+
+/**
+ * Boundaries to quantize with under the configured strategy, or null for
+ * evenly spaced levels (plain rounding). Manual boundaries that don't match
+ * the layer count fall back to even spacing.
+ */
+export function layerThresholds(histogram: number[], options: ProcessingOptions): number[] | null {
+    const settings = options.layerThresholds;
+    const levels = options.layerCount;
+    if (!settings || levels < 2) return null;
+    switch (settings.mode) {
+        case 'otsu':
+            return otsuThresholds(histogram, levels);
+        case 'equalize':
+            return equalizedThresholds(histogram, levels);
+        case 'manual':
+            return settings.thresholds.length === levels - 1 ? [...settings.thresholds].sort((a, b) => a - b) : null;
+        default:
+            return null;
+    }
+}
+
+/** Layer of a gray value. */
+export function thresholdLayer(gray: number, thresholds: number[]): number {
+    let layer = 0;
+    while (layer < thresholds.length && gray >= thresholds[layer]) layer++;
+    return layer;
+}
+
+/**
+ * Continuous layer position of a gray value (0 to levels - 1): rounding it
+ * gives the layer, with the boundaries at the half-way points. Even
+ * boundaries (null) make it linear; error diffusion and ordered dithering
+ * work on this scale.
+ */
+export function levelPosition(gray: number, levels: number, thresholds: number[] | null): number {
+    if (!thresholds) return (gray / 255) * (levels - 1);
+    const xs = [0, ...thresholds, 255];
+    const ys = [0, ...thresholds.map((_, k) => k + 0.5), levels - 1];
+    for (let j = 0; j < xs.length - 1; j++) {
+        if (gray > xs[j + 1]) continue;
+        const span = xs[j + 1] - xs[j];
+        return span > 0 ? ys[j] + ((gray - xs[j]) / span) * (ys[j + 1] - ys[j]) : ys[j + 1];
+    }
+    return levels - 1;
+}
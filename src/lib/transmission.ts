@@ -0,0 +1,105 @@
+import type { CalibrationSample, MaterialProfile, ProcessingOptions } from './types';
+import { activeMaterial } from './materials';
+
+// Sorted, monotonic lookup tables, built once per profile
+const lookupTables = new WeakMap<MaterialProfile, CalibrationSample[]>();
+
+/**
+ * Maps a tone (0-1, 1 = the darkest, thickest end) onto the normalized depth
+ * (0-1 between `minHeight` and `maxHeight`) that prints it.
+ *
+ * Linear mode uses the tone as the depth. Transmission mode follows
+ * Beer–Lambert: light through a slab of thickness x falls off as exp(-mu x),
+ * so equal thickness steps darken the bright end far more than the dark end
+ * and mid-tones print too dark. Instead the depth is chosen so the light let
+ * through falls in proportion to the tone, from all of it at `minHeight` to
+ * exp(-mu range) of it at `maxHeight`. The base is common to every pixel and
+ * cancels out.
+ *
+ * Measured mode does the same with the brightness a calibration tile of the
+ * active material actually showed, read off its lookup table.
+ */
+export function toneToDepth(tone: number, options: ProcessingOptions): number {
+    const mapping = options.thicknessMapping;
+    if (mapping?.mode === 'measured') return measuredDepth(tone, options);
+    if (mapping?.mode !== 'transmission') return tone;
+
+    const k = Math.max(0, mapping.attenuationPerMm) * (options.maxHeight - options.minHeight);
+    if (k < 1e-6) return tone;
+    const darkest = Math.exp(-k);
+    return -Math.log(1 - tone * (1 - darkest)) / k;
+}
+
+/**
+ * Normalized depth of quantization level `level`. The levels are evenly spaced
+ * in tone, so in transmission mode they are not evenly spaced in height.
+ * Colour mode predicts its own colours per level and keeps linear spacing.
+ */
+export function levelDepth(level: number, options: ProcessingOptions): number {
+    const levels = options.layerCount;
+    const tone = levels > 1 ? level / (levels - 1) : 0;
+    return options.color?.enabled ? tone : toneToDepth(tone, options);
+}
+
+/** The active material, if it has a usable measured table for measured mode. */
+export function measuredMaterial(options: ProcessingOptions): MaterialProfile | null {
+    const profile = activeMaterial(options);
+    return profile && lookupTable(profile).length >= 2 ? profile : null;
+}
+
+// Samples by thickness, with brightness made to only fall as it grows, so
+// noise in the measurements cannot make the table ambiguous
+function lookupTable(profile: MaterialProfile): CalibrationSample[] {
+    let table = lookupTables.get(profile);
+    if (!table) {
+        table = (profile.samples || [])
+            .filter((sample) => Number.isFinite(sample.thicknessMm) && Number.isFinite(sample.brightness))
+            .sort((a, b) => a.thicknessMm - b.thicknessMm);
+        let darkest = Infinity;
+        table = table.map((sample) => {
+            darkest = Math.min(darkest, sample.brightness);
+            return { thicknessMm: sample.thicknessMm, brightness: darkest };
+        });
+        lookupTables.set(profile, table);
+    }
+    return table;
+}
+
+// Brightness at a thickness, interpolated and held at the ends of the table
+function brightnessAt(table: CalibrationSample[], thicknessMm: number): number {
+    if (thicknessMm <= table[0].thicknessMm) return table[0].brightness;
+    for (let i = 1; i < table.length; i++) {
+        const a = table[i - 1], b = table[i];
+        if (thicknessMm <= b.thicknessMm) {
+            return a.brightness + (b.brightness - a.brightness) * (thicknessMm - a.thicknessMm) / (b.thicknessMm - a.thicknessMm);
+        }
+    }
+    return table[table.length - 1].brightness;
+}
+
+// Depth at which the measured brightness falls in proportion to the tone,
+// from the brightness at `minHeight` to the one at `maxHeight`. Without a
+// usable profile, or if the table does not darken over the range, the
+// mapping stays linear.
+function measuredDepth(tone: number, options: ProcessingOptions): number {
+    const profile = measuredMaterial(options);
+    if (!profile) return tone;
+    const table = lookupTable(profile);
+    const thinMm = options.baseMm + options.minHeight;
+    const rangeMm = options.maxHeight - options.minHeight;
+    const brightest = brightnessAt(table, thinMm);
+    const darkest = brightnessAt(table, thinMm + rangeMm);
+    if (brightest - darkest < 1e-3 || rangeMm <= 0) return tone;
+
+    // The thinnest thickness that is dark enough
+    const target = brightest - tone * (brightest - darkest);
+    for (let i = 1; i < table.length; i++) {
+        const a = table[i - 1], b = table[i];
+        if (b.thicknessMm <= thinMm || b.brightness > target) continue;
+        const t = a.brightness > b.brightness
+            ? a.thicknessMm + (b.thicknessMm - a.thicknessMm) * (a.brightness - target) / (a.brightness - b.brightness)
+            : b.thicknessMm;
+        return Math.min(1, Math.max(0, (t - thinMm) / rangeMm));
+    }
+    return 1;
+}
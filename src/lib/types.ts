@@ -4,28 +4,197 @@ export interface BorderSettings {
     type: BorderType;
     widthMm: number;
     depthMm: number;
+    cornerRadiusMm?: number; // Rounds the corners of rectangular prints (0 = sharp)
 }
 
-export interface MountingSettings {
+export interface CornerHoleSettings {
+    enabled: boolean;
+    diameterMm: number;
+    insetMm: number; // Distance of the hole centres from the top and side edges
+}
+
+export interface KeyholeSettings {
+    enabled: boolean;
+    headDiameterMm: number; // Round end the screw head goes through
+    slotWidthMm: number; // Narrow slot the screw shank slides up
+    slotLengthMm: number;
+    depthMm: number; // Depth of the pocket in the back
+    offsetMm: number; // Distance of the round end's centre from the top edge
+}
+
+export interface LoopSettings {
+    enabled: boolean;
+    outerDiameterMm: number;
+    holeDiameterMm: number;
+}
+
+export interface MagnetSettings {
     enabled: boolean;
+    count: 2 | 4; // Top corners only, or all four corners
+    diameterMm: number;
+    depthMm: number; // Depth of each pocket in the back
+    insetMm: number; // Distance of the pocket centres from the edges
+}
+
+export interface MountingSettings {
+    enabled: boolean; // Top-centre through-hole
     diameterMm: number;
     offsetMm: number; // Distance from top edge
+    cornerHoles?: CornerHoleSettings; // Two through-holes in the top corners
+    keyhole?: KeyholeSettings; // Keyhole pocket in the back for a wall screw
+    loop?: LoopSettings; // Ornament loop above the top edge, outside the image
+    magnets?: MagnetSettings; // Blind magnet pockets in the back
 }
 
-export type ShapeType = 'flat' | 'cylinder' | 'arc' | 'sphere' | 'circle';
+export type ShapeType = 'flat' | 'cylinder' | 'arc' | 'sphere' | 'circle' | 'outline';
+
+export type OutlineKind = 'heart' | 'star' | 'hexagon' | 'roundedRect' | 'svg';
+
+export interface OutlineSettings {
+    kind: OutlineKind;
+    svgPath?: string; // Path data of the loaded SVG, when kind is 'svg'
+    svgName?: string; // File name of the loaded SVG, for display
+}
+
+export interface RingSettings {
+    enabled: boolean;
+    innerDiameterMm: number; // Opening for a tea-light or lamp socket
+    heightMm: number; // Thickness of the ring
+}
 
 export interface ShapeSettings {
     type: ShapeType;
     angle: number; // For Arc (degrees)
+    ring?: RingSettings; // Printed bottom ring for lamp shapes
+    openingMm?: number; // Sphere only: diameter of the LED opening at the south pole (0 = closed)
+    outline?: OutlineSettings; // Cut-out outline for the 'outline' shape
+}
+
+export interface StandSettings {
+    widthPercent: number; // Stand width as a share of the print width (of the angle for arcs)
+    tiltDeg: number; // Backward lean of the slot; arc prints stand upright in a curved slot
+    toleranceMm: number; // Slot clearance over the thickness of the print
+    frontLipMm: number; // Height of the lip in front of the print
+    backSupportMm: number; // Height of the support behind it
+    lightBox: boolean; // Adds a channel for an LED strip behind the slot
+    ledChannelMm: number; // Width of that channel
+}
+
+export type ThicknessMappingMode = 'linear' | 'transmission' | 'measured';
+
+export interface ThicknessMappingSettings {
+    mode: ThicknessMappingMode; // Linear in tone, even steps of transmitted light, or the material's measured table
+    attenuationPerMm: number; // Beer–Lambert attenuation coefficient of the filament (1/mm)
+}
+
+export interface CalibrationSample {
+    thicknessMm: number; // Total thickness of the patch, base included
+    brightness: number; // Measured brightness when backlit, 0 (black) to 255 (white)
+}
+
+export interface MaterialProfile {
+    name: string;
+    color: string; // Hex colour of the filament, for the preview
+    attenuationPerMm: number; // Beer–Lambert attenuation coefficient (1/mm)
+    minHeightMm: number; // Recommended thickness range of the image
+    maxHeightMm: number;
+    densityGPerCm3: number; // For filament weight estimates
+    samples?: CalibrationSample[]; // Measured brightness lookup table, from a printed calibration tile
+}
+
+export interface LocalContrastSettings {
+    enabled: boolean;
+    clipLimit: number; // How far each tile's tones may be stretched; 1 leaves them as they are
+    tileMm: number; // Size of the regions whose contrast is evened out separately
+}
+
+export interface SharpenSettings {
+    enabled: boolean;
+    radiusMm: number; // Size of the detail to bring out
+    amount: number; // 1 doubles the local detail
+    threshold: number; // Brightness differences (0-255) below this are left alone, so noise isn't sharpened
+}
+
+// Box blur, or edge-preserving bilateral, median and guided filters
+export type SmoothingFilter = 'none' | 'box' | 'bilateral' | 'median' | 'guided';
+
+export interface SmoothingSettings {
+    filter: SmoothingFilter;
+    radiusMm: number; // Reach of the filter
+    edgeThreshold: number; // Bilateral and guided: brightness step (0-255) kept as an edge rather than smoothed
+}
+
+// How the gray range is split into layers: evenly, by multi-level Otsu, into
+// layers of equal pixel counts, or at boundaries set on the histogram
+export type ThresholdMode = 'even' | 'otsu' | 'equalize' | 'manual';
+
+export interface LayerThresholdSettings {
+    mode: ThresholdMode;
+    thresholds: number[]; // Manual boundaries between consecutive layers, gray 0-255 ascending
+}
+
+// Error diffusion (Floyd-Steinberg, Atkinson) or ordered thresholds (Bayer, blue noise)
+export type DitherMode = 'none' | 'floydSteinberg' | 'atkinson' | 'bayer' | 'blueNoise';
+
+export interface DitherSettings {
+    mode: DitherMode;
+    strength: number; // 0-1: how much of the rounding error is spread; 0 is plain rounding
+    minDotMm: number; // Smallest dithered feature, e.g. the nozzle width
+}
+
+export interface SimplifySettings {
+    enabled: boolean;
+    toleranceMm: number; // How far a merged face may stray from the faces it replaces; 0 keeps heights exact
+}
+
+export interface FrameSettings {
+    wallMm: number; // Walls, face plate and back plate
+    lipMm: number; // How far the bezel overlaps the edge of the print
+    lightGapMm: number; // Space between the print and the LED panel, for even light
+    toleranceMm: number; // Fit clearance around the print
+    cableNotchMm: number; // Width of the cable notch in the back cover
+}
+
+export type TextPlacement = 'border' | 'caption' | 'back';
+
+export type TextWeight = 'light' | 'regular' | 'bold';
+
+// Single-stroke sans or dot-matrix pixel face
+export type TextFont = 'sans' | 'pixel';
+
+export interface TextSettings {
+    enabled: boolean;
+    content: string;
+    placement: TextPlacement; // On the border band, on a strip below the image, or mirrored on the back
+    sizeMm: number; // Height of the capitals
+    weight: TextWeight;
+    font?: TextFont; // Sans when absent
+    engraved: boolean; // Cut into the surface instead of raised from it
+    depthMm: number; // How far the text is raised or engraved
+}
+
+export interface FilamentSettings {
+    color: string; // Hex colour, e.g. '#ffffff'
+    transmissionMm: number; // Transmission distance: thickness at which the filament hides what is below
+}
+
+export interface ColorSettings {
+    enabled: boolean;
+    filaments: FilamentSettings[]; // Ordered bottom (printed first) to top
 }
 
 export interface ProcessingOptions {
     layerCount: number; // Number of gray levels (e.g. 5-7)
     minHeight: number; // Minimum thickness in mm
     maxHeight: number; // Maximum thickness in mm
+    thicknessMapping?: ThicknessMappingSettings; // How tones map onto thickness
+    material?: string; // Name of the filament being printed
+    materials?: MaterialProfile[]; // User-defined material profiles; they replace built-in ones of the same name
     widthMm: number; // Physical width of the print in mm
     invert: boolean; // Invert brightness (darker = higher vs brighter = higher)
-    smoothing: number; // 0-1 smoothing factor
+    smoothing?: SmoothingSettings; // Noise filter applied before quantization
+    layerThresholds?: LayerThresholdSettings; // Where one layer ends and the next begins
+    dither?: DitherSettings; // Dithering between layers, for smooth gradients with few of them
     layerVisibility?: boolean[]; // Array of flags for each layer
 
     // Image Adjustments
@@ -34,21 +203,47 @@ export interface ProcessingOptions {
     gamma?: number;
     backgroundRemoval?: boolean;
     backgroundThreshold?: number;
+    localContrast?: LocalContrastSettings; // CLAHE, after the global adjustments and smoothing
+    sharpen?: SharpenSettings; // Unsharp mask, last before quantization
 
     baseMm: number; // Solid base thickness
     pixelSize: number; // mm per pixel (resolution)
+    simplify?: SimplifySettings; // Merge coplanar triangles before export
     border: BorderSettings;
     shape: ShapeSettings;
     mounting?: MountingSettings;
+    text?: TextSettings;
+    stand?: StandSettings;
+    frame?: FrameSettings; // Light-box frame
+    color?: ColorSettings; // Multi-filament colour mode
 }
 
 export const DEFAULT_OPTIONS: ProcessingOptions = {
     layerCount: 6,
     minHeight: 0.6, // Base thickness
     maxHeight: 3.0, // Max thickness
+    thicknessMapping: {
+        mode: 'linear',
+        attenuationPerMm: 1.2 // Typical white PLA
+    },
+    material: 'White PLA',
+    materials: [],
     widthMm: 100, // 10cm wide
     invert: false,
-    smoothing: 0,
+    smoothing: {
+        filter: 'none',
+        radiusMm: 0.3,
+        edgeThreshold: 20
+    },
+    layerThresholds: {
+        mode: 'even',
+        thresholds: []
+    },
+    dither: {
+        mode: 'none',
+        strength: 1,
+        minDotMm: 0.4 // Common nozzle
+    },
     layerVisibility: [],
 
     contrast: 1.0,
@@ -56,21 +251,106 @@ export const DEFAULT_OPTIONS: ProcessingOptions = {
     gamma: 1.0,
     backgroundRemoval: false,
     backgroundThreshold: 250,
+    localContrast: {
+        enabled: false,
+        clipLimit: 2,
+        tileMm: 15
+    },
+    sharpen: {
+        enabled: false,
+        radiusMm: 0.5,
+        amount: 0.8,
+        threshold: 4
+    },
 
     baseMm: 2.0,
     pixelSize: 0.15,
+    simplify: {
+        enabled: false,
+        toleranceMm: 0
+    },
     border: {
         type: 'none',
         widthMm: 3,
-        depthMm: 3
+        depthMm: 3,
+        cornerRadiusMm: 0
     },
     shape: {
         type: 'flat',
-        angle: 180
+        angle: 180,
+        ring: {
+            enabled: false,
+            innerDiameterMm: 39, // LED tea-light
+            heightMm: 2
+        },
+        openingMm: 30,
+        outline: {
+            kind: 'heart'
+        }
     },
     mounting: {
         enabled: false,
         diameterMm: 5,
-        offsetMm: 5
+        offsetMm: 5,
+        cornerHoles: {
+            enabled: false,
+            diameterMm: 4,
+            insetMm: 6
+        },
+        keyhole: {
+            enabled: false,
+            headDiameterMm: 9,
+            slotWidthMm: 4.5,
+            slotLengthMm: 8,
+            depthMm: 3,
+            offsetMm: 20
+        },
+        loop: {
+            enabled: false,
+            outerDiameterMm: 10,
+            holeDiameterMm: 5
+        },
+        magnets: {
+            enabled: false,
+            count: 4,
+            diameterMm: 6.2, // 6 x 2mm disc magnets with clearance
+            depthMm: 2.2,
+            insetMm: 8
+        }
+    },
+    text: {
+        enabled: false,
+        content: '',
+        placement: 'caption',
+        sizeMm: 6,
+        weight: 'regular',
+        font: 'sans',
+        engraved: true,
+        depthMm: 0.8
+    },
+    stand: {
+        widthPercent: 60,
+        tiltDeg: 10,
+        toleranceMm: 2.1,
+        frontLipMm: 8,
+        backSupportMm: 20,
+        lightBox: false,
+        ledChannelMm: 12 // 10mm LED strips
+    },
+    frame: {
+        wallMm: 2.4,
+        lipMm: 4,
+        lightGapMm: 10,
+        toleranceMm: 0.4,
+        cableNotchMm: 8
+    },
+    color: {
+        enabled: false,
+        filaments: [
+            { color: '#1a1a1a', transmissionMm: 0.6 },
+            { color: '#c83232', transmissionMm: 1.5 },
+            { color: '#f0c020', transmissionMm: 2.5 },
+            { color: '#ffffff', transmissionMm: 3.0 }
+        ]
     }
 };